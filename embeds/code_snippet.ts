@@ -5,39 +5,44 @@
  * Usage: <!--@embedoc:code_snippet file="path/to/file.ts" start="10" end="20" lang="typescript"-->
  *
  * Parameters:
- *   - file: File path (relative to embedoc.config.yaml)
+ *   - file: File path (relative to the document, or to the project root with a leading /)
  *   - start: Start line number (default: 1)
  *   - end: End line number (default: end of file)
  *   - lang: Language (default: auto-detect from extension)
  *   - title: Title (optional)
- *   - no_source: If "true", omit source reference line
+ *   - no_source: If true, omit source reference line
  */
 
 import { defineEmbed } from '../dist/index.js';
-import fs from 'node:fs';
 import path from 'node:path';
 
 export default defineEmbed({
+  description: 'Extract and display code snippets from specified files',
+
+  params: {
+    file: { type: 'string', required: true, description: 'File path (relative to the document, or / for the project root)' },
+    start: { type: 'integer', default: 1, description: 'Start line number' },
+    end: { type: 'integer', description: 'End line number (default: end of file)' },
+    lang: { type: 'string', description: 'Language (default: auto-detect from extension)' },
+    title: { type: 'string', description: 'Title' },
+    no_source: { type: 'boolean', default: false, description: 'Omit source reference line' },
+  },
+
   async render(ctx) {
-    const filePath = ctx.params['file'];
-    const startLine = parseInt(ctx.params['start'] || '1', 10);
-    const endLine = ctx.params['end'] ? parseInt(ctx.params['end'], 10) : undefined;
+    const filePath = ctx.params['file']!;
+    const startLine = ctx.typedParams['start'] as number;
+    const endLine = ctx.typedParams['end'] as number | undefined;
     const lang = ctx.params['lang'] || detectLanguage(filePath);
     const title = ctx.params['title'];
-    const noSource = ctx.params['no_source'] === 'true';
+    const noSource = ctx.typedParams['no_source'] === true;
 
-    if (!filePath) {
-      return { content: '⚠️ `file` parameter is required' };
-    }
-
-    // Resolve file path relative to project root (where embedoc.config.yaml is)
-    const resolvedPath = path.resolve(process.cwd(), filePath);
-
-    if (!fs.existsSync(resolvedPath)) {
+    // Read through ctx so that changes to the file rebuild the document
+    let content: string;
+    try {
+      content = await ctx.readFile(filePath);
+    } catch {
       return { content: `⚠️ File not found: ${filePath}` };
     }
-
-    const content = fs.readFileSync(resolvedPath, 'utf-8');
     const lines = content.split('\n');
 
     // Extract specified line range
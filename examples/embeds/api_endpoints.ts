@@ -10,6 +10,8 @@
 import { defineEmbed } from 'embedoc';
 
 export default defineEmbed({
+  description: 'Display API endpoints from CSV datasource as a table',
+
   dependsOn: ['api_endpoints'],
 
   async render(ctx) {
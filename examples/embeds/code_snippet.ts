@@ -3,13 +3,13 @@
  * Extract and display code snippets from specified files or inline datasources
  *
  * Usage with file:
- *   <!--@embedoc:code_snippet file="path/to/file.ts" start="10" end="20" lang="typescript"-->
+ *   <!--@embedoc:code_snippet file="../src/file.ts" start="10" end="20" lang="typescript"-->
  *
  * Usage with inline datasource:
  *   <!--@embedoc:code_snippet datasource="my_code" lang="typescript"-->
  *
  * Parameters:
- *   - file: File path (relative to embedoc.config.yaml)
+ *   - file: File path (relative to the document, or to the project root with a leading /)
  *   - datasource: Name of inline datasource containing code (alternative to file)
  *   - path: Property path within datasource (optional, default: root)
  *   - start: Start line number (default: 1) - only for file mode
@@ -19,14 +19,25 @@
  */
 
 import { defineEmbed, InlineDatasource } from '../../dist/index.js';
-import fs from 'node:fs';
 import path from 'node:path';
 
 export default defineEmbed({
+  description: 'Extract and display code snippets from files or inline datasources',
+
+  params: {
+    file: { type: 'string', description: 'File path (relative to the document, or / for the project root)' },
+    datasource: { type: 'string', description: 'Name of inline datasource containing code' },
+    path: { type: 'string', default: '', description: 'Property path within datasource' },
+    start: { type: 'integer', default: 1, description: 'Start line number (file mode)' },
+    end: { type: 'integer', description: 'End line number (file mode)' },
+    lang: { type: 'string', description: 'Language (default: auto-detect from extension)' },
+    title: { type: 'string', description: 'Title' },
+  },
+
   async render(ctx) {
     const datasourceName = ctx.params['datasource'];
     const filePath = ctx.params['file'];
-    const propertyPath = ctx.params['path'] || '';
+    const propertyPath = ctx.params['path']!;
     const lang = ctx.params['lang'] || (filePath ? detectLanguage(filePath) : '');
     const title = ctx.params['title'];
 
@@ -76,22 +87,21 @@ export default defineEmbed({
       return { content: parts.join('\n') };
     }
 
-    // Mode 2: External file reference (original behavior)
+    // Mode 2: External file reference
     if (!filePath) {
       return { content: '⚠️ `file` or `datasource` parameter is required' };
     }
 
-    const startLine = parseInt(ctx.params['start'] || '1', 10);
-    const endLine = ctx.params['end'] ? parseInt(ctx.params['end'], 10) : undefined;
+    const startLine = ctx.typedParams['start'] as number;
+    const endLine = ctx.typedParams['end'] as number | undefined;
 
-    // Resolve file path relative to project root (where embedoc.config.yaml is)
-    const resolvedPath = path.resolve(process.cwd(), filePath);
-
-    if (!fs.existsSync(resolvedPath)) {
+    // Read through ctx so that changes to the file rebuild the document
+    let content: string;
+    try {
+      content = await ctx.readFile(filePath);
+    } catch {
       return { content: `⚠️ File not found: ${filePath}` };
     }
-
-    const content = fs.readFileSync(resolvedPath, 'utf-8');
     const lines = content.split('\n');
 
     // Extract specified line range
@@ -0,0 +1,30 @@
+/**
+ * embed_catalog Embed
+ * Document all registered embeds (description, parameters and usage)
+ *
+ * Usage: <!--@embedoc:embed_catalog heading_level=3-->
+ *
+ * Parameters:
+ *   - heading_level: Heading level for embed names (default: 2)
+ */
+
+import { defineEmbed, createEmbedCatalog, renderEmbedCatalog } from 'embedoc';
+
+export default defineEmbed({
+  description: 'Document all registered embeds (description, parameters and usage)',
+
+  params: {
+    heading_level: { type: 'integer', default: 2, description: 'Heading level for embed names' },
+  },
+
+  async render(ctx) {
+    // Import the registry lazily to avoid a circular import with index.ts
+    const { embeds } = await import('./index.ts');
+
+    return {
+      content: renderEmbedCatalog(createEmbedCatalog(embeds), 'markdown', {
+        headingLevel: ctx.typedParams['heading_level'] as number,
+      }),
+    };
+  },
+});
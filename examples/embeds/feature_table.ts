@@ -17,12 +17,18 @@ interface Feature {
 }
 
 export default defineEmbed({
-  async render(ctx) {
-    const datasourceName = ctx.params['datasource'];
+  description: 'Display a feature list from inline datasource as a table',
+
+  params: {
+    datasource: {
+      type: 'string',
+      required: true,
+      description: 'Name of the inline datasource containing features array',
+    },
+  },
 
-    if (!datasourceName) {
-      return { content: '⚠️ `datasource` parameter is required' };
-    }
+  async render(ctx) {
+    const datasourceName = ctx.params['datasource']!;
 
     const ds = ctx.datasources[datasourceName];
     if (!ds) {
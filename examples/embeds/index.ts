@@ -11,6 +11,7 @@ import apiEndpoints from './api_endpoints.ts';
 import openapiEndpoints from './openapi_endpoints.ts';
 import inlineValue from './inline_value.ts';
 import featureTable from './feature_table.ts';
+import embedCatalog from './embed_catalog.ts';
 
 export const embeds = {
   table_columns: tableColumns,
@@ -21,4 +22,5 @@ export const embeds = {
   openapi_endpoints: openapiEndpoints,
   inline_value: inlineValue,
   feature_table: featureTable,
+  embed_catalog: embedCatalog,
 };
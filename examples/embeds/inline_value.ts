@@ -13,14 +13,23 @@
 import { defineEmbed } from 'embedoc';
 
 export default defineEmbed({
+  description: 'Display a value from inline datasource with optional formatting',
+
+  params: {
+    datasource: { type: 'string', required: true, description: 'Name of the inline datasource' },
+    path: { type: 'string', description: 'Dot-path to the value' },
+    format: {
+      type: 'string',
+      enum: ['text', 'code', 'bold', 'italic'],
+      default: 'text',
+      description: 'Output format',
+    },
+  },
+
   async render(ctx) {
-    const datasourceName = ctx.params['datasource'];
+    const datasourceName = ctx.params['datasource']!;
     const path = ctx.params['path'];
-    const format = ctx.params['format'] || 'text';
-
-    if (!datasourceName) {
-      return { content: '⚠️ `datasource` parameter is required' };
-    }
+    const format = ctx.params['format'];
 
     const ds = ctx.datasources[datasourceName];
     if (!ds) {
@@ -6,16 +6,18 @@
 import { defineEmbed } from 'embedoc';
 
 export default defineEmbed({
+  description: 'Output table column information as a Markdown table',
+
   // Datasources this embed depends on
   dependsOn: ['metadata_db'],
 
-  async render(ctx) {
-    // Get table name from parameters
-    const { id } = ctx.params;
+  params: {
+    id: { type: 'string', required: true, description: 'Table name' },
+  },
 
-    if (!id) {
-      return { content: '❌ Error: id parameter is required' };
-    }
+  async render(ctx) {
+    // Get table name from parameters (validated by the params schema)
+    const id = ctx.params['id']!;
 
     // Get column information from datasource
     const columns = await ctx.datasources['metadata_db']!.query(
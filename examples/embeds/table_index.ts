@@ -6,6 +6,8 @@
 import { defineEmbed } from 'embedoc';
 
 export default defineEmbed({
+  description: 'Output table list with links',
+
   dependsOn: ['metadata_db'],
 
   async render(ctx) {
@@ -6,14 +6,16 @@
 import { defineEmbed } from 'embedoc';
 
 export default defineEmbed({
+  description: 'Output table dependencies as a Mermaid diagram',
+
   dependsOn: ['metadata_db'],
 
-  async render(ctx) {
-    const { id } = ctx.params;
+  params: {
+    id: { type: 'string', required: true, description: 'Table name' },
+  },
 
-    if (!id) {
-      return { content: '❌ Error: id parameter is required' };
-    }
+  async render(ctx) {
+    const id = ctx.params['id']!;
 
     // Get foreign key information
     const relations = await ctx.datasources['metadata_db']!.query(
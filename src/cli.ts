@@ -4,19 +4,36 @@
  * embedoc CLI
  */
 
-import { Command } from 'commander';
-import { readFile, access } from 'node:fs/promises';
+import { Command, InvalidArgumentError } from 'commander';
+import { readFile, writeFile, access } from 'node:fs/promises';
 import { resolve, relative } from 'node:path';
 import { pathToFileURL } from 'node:url';
 import yaml from 'js-yaml';
 import pc from 'picocolors';
 import chokidar from 'chokidar';
 import { tsImport } from 'tsx/esm/api';
-import type { EmbedifyConfig, EmbedDefinition } from './types/index.js';
-import { initializeDatasources, closeDatasources } from './datasources/index.js';
-import { build } from './core/processor.js';
+import type {
+  BuildResult,
+  EmbedifyConfig,
+  EmbedDefinition,
+  ProcessResult,
+} from './types/index.js';
+import {
+  initializeDatasources,
+  closeDatasources,
+  registerDatasourceType,
+} from './datasources/index.js';
+import type { DatasourceTypes } from './datasources/index.js';
+import { build, formatDiagnostic } from './core/processor.js';
 import { generateAll } from './core/generator.js';
 import { DependencyGraph } from './core/dependency.js';
+import type { DependencyGraphFormat } from './core/dependency.js';
+import { createUnifiedDiff } from './core/diff.js';
+import { initProject } from './core/init.js';
+import { createEmbedCatalog, renderEmbedCatalog } from './core/catalog.js';
+import { BuildCache, clearBuildCache, getCacheFile } from './core/cache.js';
+import { DependencyStore } from './core/dependency-store.js';
+import { findAffectedDocuments, getChangedFilesSince } from './core/affected.js';
 
 const program = new Command();
 
@@ -92,6 +109,241 @@ async function loadEmbeds(
   }
 }
 
+/**
+ * Load custom datasource types from `datasource_modules`
+ * Each module exports `datasourceTypes` (type name -> factory or definition)
+ */
+async function loadDatasourceModules(config: EmbedifyConfig): Promise<void> {
+  for (const modulePath of config.datasource_modules ?? []) {
+    const absolutePath = resolve(modulePath);
+
+    try {
+      // tsImport may return { default: { datasourceTypes: ... } } or { datasourceTypes: ... }
+      const module = (
+        absolutePath.endsWith('.ts')
+          ? await tsImport(absolutePath, import.meta.url)
+          : await import(pathToFileURL(absolutePath).href)
+      ) as {
+        datasourceTypes?: DatasourceTypes;
+        default?: { datasourceTypes?: DatasourceTypes };
+      };
+      const types = module.datasourceTypes ?? module.default?.datasourceTypes;
+      if (!types) {
+        throw new Error('Module does not export "datasourceTypes"');
+      }
+
+      for (const [type, definition] of Object.entries(types)) {
+        registerDatasourceType(type, definition);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load datasource module ${modulePath}: ${message}`);
+    }
+  }
+}
+
+/**
+ * Parse a positive integer option value
+ */
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a markdown heading level option (1 to 6)
+ */
+function parseHeadingLevel(value: string): number {
+  const level = parsePositiveInt(value);
+  if (level > 6) {
+    throw new InvalidArgumentError('Must be between 1 and 6.');
+  }
+  return level;
+}
+
+/**
+ * Load build cache unless disabled by option or config
+ */
+async function loadCache(
+  config: EmbedifyConfig,
+  embeds: Record<string, EmbedDefinition>,
+  enabled: boolean,
+  dependencies: DependencyStore
+): Promise<BuildCache | undefined> {
+  if (!enabled || config.cache?.enabled === false) {
+    return undefined;
+  }
+  return BuildCache.load(config, embeds, dependencies);
+}
+
+/**
+ * Print marker warnings (errors are reported as file failures)
+ */
+function printDiagnostics(results: ProcessResult[]): void {
+  for (const r of results) {
+    for (const diagnostic of r.diagnostics) {
+      if (diagnostic.severity !== 'error') {
+        console.warn(pc.yellow(`Warning: ${formatDiagnostic(diagnostic)}`));
+      }
+    }
+  }
+}
+
+/**
+ * Colorize unified diff output
+ */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return pc.bold(line);
+      if (line.startsWith('@@')) return pc.cyan(line);
+      if (line.startsWith('+')) return pc.green(line);
+      if (line.startsWith('-')) return pc.red(line);
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Print diffs of changed files (mode: file) or changed marker blocks (mode: marker)
+ */
+function printDiffs(results: ProcessResult[], mode: string): void {
+  for (const r of results) {
+    if (!r.changed || r.originalContent === undefined || r.newContent === undefined) {
+      continue;
+    }
+
+    if (mode === 'marker') {
+      for (const marker of r.markers) {
+        if (!marker.changed || marker.originalContent === undefined || marker.newContent === undefined) {
+          continue;
+        }
+        const label = `${r.filePath}:${marker.line} (${marker.templateName})`;
+        const diff = createUnifiedDiff(marker.originalContent, marker.newContent, {
+          oldLabel: `a/${label}`,
+          newLabel: `b/${label}`,
+          startLine: marker.line,
+        });
+        console.log('\n' + colorizeDiff(diff));
+      }
+    } else {
+      const diff = createUnifiedDiff(r.originalContent, r.newContent, {
+        oldLabel: `a/${r.filePath}`,
+        newLabel: `b/${r.filePath}`,
+      });
+      console.log('\n' + colorizeDiff(diff));
+    }
+  }
+}
+
+/**
+ * Print build results and errors of failed files
+ */
+function printBuildSummary(result: BuildResult, startTime: number, dryRun?: boolean): void {
+  const duration = Date.now() - startTime;
+  console.log('');
+  console.log(pc.green('✅ Build completed!'));
+  console.log(`   Files processed: ${result.totalFiles}`);
+  console.log(`   Markers updated: ${result.totalMarkersUpdated}`);
+  console.log(`   Success: ${result.successFiles}`);
+
+  if (result.cachedFiles > 0) {
+    console.log(`   Cached (unchanged): ${result.cachedFiles}`);
+  }
+
+  if (result.failedFiles > 0) {
+    console.log(pc.red(`   Failed: ${result.failedFiles}`));
+  }
+
+  console.log(`   Duration: ${duration}ms`);
+
+  if (dryRun) {
+    console.log(pc.yellow('\n   (Dry run - no files were modified)'));
+  }
+
+  // Show error details for failures
+  for (const r of result.results) {
+    if (!r.success && r.error) {
+      console.error(pc.red(`\n   Error in ${r.filePath}:`));
+      console.error(`   ${r.error.message}`);
+    }
+  }
+}
+
+/**
+ * Read changed file paths from stdin (one per line)
+ */
+async function readStdinPaths(): Promise<string[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks)
+    .toString('utf-8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+}
+
+/**
+ * init command
+ */
+program
+  .command('init')
+  .description('Create a starter configuration and embeds directory')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .option('-f, --force', 'Overwrite existing files')
+  .option('--no-detect', 'Do not detect docs folders and datasource files')
+  .option('-d, --dry-run', 'Dry run without writing files')
+  .action(async (options) => {
+    try {
+      console.log(pc.cyan('🌱 Initializing embedoc project...'));
+      const result = await initProject({
+        configPath: options.config,
+        force: options.force,
+        detect: options.detect,
+        dryRun: options.dryRun,
+      });
+
+      console.log('');
+      for (const file of result.files) {
+        if (file.skipped) {
+          console.log(pc.yellow(`   Skipped (exists): ${file.path}`));
+        } else {
+          console.log(pc.green(`   Created: ${file.path}`));
+        }
+      }
+
+      console.log('');
+      console.log(`   Targets: ${result.targets.map((t) => t.pattern).join(', ')}`);
+      const datasourceNames = Object.keys(result.datasources);
+      if (datasourceNames.length > 0) {
+        console.log(`   Datasources: ${datasourceNames.join(', ')}`);
+      }
+
+      if (options.dryRun) {
+        console.log(pc.yellow('\n   (Dry run - no files were created)'));
+      }
+
+      if (result.files.some((f) => f.skipped)) {
+        console.log(pc.gray('\n   Use --force to overwrite existing files.'));
+      }
+
+      console.log('');
+      console.log(pc.green('✅ Done! Next steps:'));
+      console.log('   1. Add a marker to a document: <!--@embedoc:hello name="World"--><!--@embedoc:end-->');
+      console.log('   2. Run: npx embedoc build');
+    } catch (error) {
+      console.error(pc.red('❌ Init failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 /**
  * build command
  */
@@ -100,47 +352,127 @@ program
   .description('Build documents by replacing markers with embed results')
   .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
   .option('-d, --dry-run', 'Dry run without writing files')
+  .option('--diff [mode]', 'Show unified diff of changes per file or per marker (file | marker)')
+  .option('-j, --concurrency <n>', 'Number of files processed in parallel', parsePositiveInt)
+  .option('--no-cache', 'Process all files, ignoring the build cache')
   .option('-v, --verbose', 'Verbose output')
   .action(async (files: string[], options) => {
     const startTime = Date.now();
 
     try {
+      if (options.diff && options.diff !== true && !['file', 'marker'].includes(options.diff)) {
+        console.error(pc.red(`Error: Unknown diff mode "${options.diff}" (use "file" or "marker")`));
+        process.exit(1);
+      }
+
       console.log(pc.cyan('🔧 Loading configuration...'));
       const config = await loadConfig(options.config);
 
       console.log(pc.cyan('📦 Initializing datasources...'));
+      await loadDatasourceModules(config);
       const datasources = initializeDatasources(config);
 
       console.log(pc.cyan('📝 Loading embeds...'));
       const embedsDir = config.embeds_dir ?? './embeds';
       const embeds = await loadEmbeds(embedsDir);
 
+      const dependencies = await DependencyStore.load(config);
+      const cache = await loadCache(config, embeds, options.cache, dependencies);
+
       console.log(pc.cyan('🔄 Processing files...'));
       const result = await build(config, embeds, datasources, {
         dryRun: options.dryRun,
         verbose: options.verbose,
         specificFiles: files.length > 0 ? files : undefined,
+        concurrency: options.concurrency,
+        cache,
+        dependencies,
       });
 
       // Cleanup
       await closeDatasources(datasources);
+      await cache?.save();
+      await dependencies.save();
 
-      // Show results
-      const duration = Date.now() - startTime;
-      console.log('');
-      console.log(pc.green('✅ Build completed!'));
-      console.log(`   Files processed: ${result.totalFiles}`);
-      console.log(`   Markers updated: ${result.totalMarkersUpdated}`);
-      console.log(`   Success: ${result.successFiles}`);
+      printDiagnostics(result.results);
 
-      if (result.failedFiles > 0) {
-        console.log(pc.red(`   Failed: ${result.failedFiles}`));
+      if (options.diff) {
+        printDiffs(result.results, options.diff === true ? 'file' : options.diff);
       }
 
-      console.log(`   Duration: ${duration}ms`);
+      printBuildSummary(result, startTime, options.dryRun);
 
-      if (options.dryRun) {
-        console.log(pc.yellow('\n   (Dry run - no files were modified)'));
+      process.exit(result.failedFiles > 0 ? 1 : 0);
+    } catch (error) {
+      console.error(pc.red('❌ Build failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * check command
+ */
+program
+  .command('check [files...]')
+  .description('Check that documents are up to date (exits with 1 if any are stale)')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .option('-j, --concurrency <n>', 'Number of files processed in parallel', parsePositiveInt)
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (files: string[], options) => {
+    const startTime = Date.now();
+
+    try {
+      console.log(pc.cyan('🔧 Loading configuration...'));
+      const config = await loadConfig(options.config);
+
+      console.log(pc.cyan('📦 Initializing datasources...'));
+      await loadDatasourceModules(config);
+      const datasources = initializeDatasources(config);
+
+      console.log(pc.cyan('📝 Loading embeds...'));
+      const embedsDir = config.embeds_dir ?? './embeds';
+      const embeds = await loadEmbeds(embedsDir);
+
+      // No build cache: a cache hit cannot see inputs it does not track
+      // (files read without ctx.readFile, modules outside embeds_dir)
+      const dependencies = await DependencyStore.load(config);
+
+      console.log(pc.cyan('🔍 Checking files...'));
+      const result = await build(config, embeds, datasources, {
+        dryRun: true,
+        verbose: options.verbose,
+        specificFiles: files.length > 0 ? files : undefined,
+        concurrency: options.concurrency,
+        dependencies,
+      });
+
+      // Cleanup
+      await closeDatasources(datasources);
+      await dependencies.save();
+
+      printDiagnostics(result.results);
+
+      const staleResults = result.results.filter((r) => r.success && r.changed);
+      const duration = Date.now() - startTime;
+
+      console.log('');
+      if (staleResults.length === 0 && result.failedFiles === 0) {
+        console.log(pc.green('✅ All documents are up to date!'));
+      }
+
+      // Show stale files and markers
+      if (staleResults.length > 0) {
+        console.log(pc.red(`❌ ${staleResults.length} file(s) are out of date:`));
+        for (const r of staleResults) {
+          console.log(`\n   ${r.filePath}`);
+          for (const marker of r.markers) {
+            if (marker.changed) {
+              console.log(`     line ${marker.line}: ${pc.yellow(marker.templateName)}`);
+            }
+          }
+        }
+        console.log(pc.gray('\n   Run "embedoc build" to update them.'));
       }
 
       // Show error details for failures
@@ -151,9 +483,100 @@ program
         }
       }
 
+      console.log('');
+      console.log(`   Files checked: ${result.totalFiles}`);
+      console.log(`   Duration: ${duration}ms`);
+
+      process.exit(staleResults.length > 0 || result.failedFiles > 0 ? 1 : 0);
+    } catch (error) {
+      console.error(pc.red('❌ Check failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * affected command
+ */
+program
+  .command('affected [files...]')
+  .description('List or build documents affected by changed files')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .option('--since <ref>', 'Use files changed since a git ref (committed, uncommitted and untracked)')
+  .option('--stdin', 'Read changed file paths from stdin (one per line)')
+  .option('-b, --build', 'Build the affected documents instead of listing them')
+  .option('-d, --dry-run', 'Dry run without writing files (with --build)')
+  .option('-j, --concurrency <n>', 'Number of files processed in parallel', parsePositiveInt)
+  .option('--no-cache', 'Process all affected files, ignoring the build cache')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (files: string[], options) => {
+    const startTime = Date.now();
+
+    try {
+      if (files.length === 0 && !options.stdin && !options.since) {
+        console.error(pc.red('Error: No changed files (pass file paths, --stdin or --since <ref>)'));
+        process.exit(1);
+      }
+
+      const changedFiles = [...files];
+      if (options.stdin) {
+        changedFiles.push(...(await readStdinPaths()));
+      }
+      if (options.since) {
+        changedFiles.push(...(await getChangedFilesSince(options.since)));
+      }
+
+      const config = await loadConfig(options.config);
+      await loadDatasourceModules(config);
+      const embedsDir = config.embeds_dir ?? './embeds';
+      const embeds = await loadEmbeds(embedsDir);
+
+      // Same graph as watch mode (with dependencies recorded in previous builds)
+      const dependencies = await DependencyStore.load(config);
+      const depGraph = new DependencyGraph(config, embeds, dependencies);
+      await depGraph.build();
+      const affected = await findAffectedDocuments(config, embeds, depGraph, changedFiles);
+
+      if (!options.build) {
+        // One path per line (for piping into other commands)
+        for (const docPath of affected) {
+          console.log(relative(process.cwd(), docPath));
+        }
+        return;
+      }
+
+      if (affected.length === 0) {
+        console.log(pc.gray('No affected documents found'));
+        return;
+      }
+
+      console.log(pc.cyan(`📝 Building ${affected.length} affected document(s)...`));
+      for (const docPath of affected) {
+        console.log(pc.gray(`   - ${relative(process.cwd(), docPath)}`));
+      }
+
+      const datasources = initializeDatasources(config);
+      const cache = await loadCache(config, embeds, options.cache, dependencies);
+
+      const result = await build(config, embeds, datasources, {
+        dryRun: options.dryRun,
+        verbose: options.verbose,
+        specificFiles: affected,
+        concurrency: options.concurrency,
+        cache,
+        dependencies,
+      });
+
+      await closeDatasources(datasources);
+      await cache?.save();
+      await dependencies.save();
+
+      printDiagnostics(result.results);
+      printBuildSummary(result, startTime, options.dryRun);
+
       process.exit(result.failedFiles > 0 ? 1 : 0);
     } catch (error) {
-      console.error(pc.red('❌ Build failed:'));
+      console.error(pc.red('❌ Finding affected documents failed:'));
       console.error(error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
@@ -186,6 +609,7 @@ program
       const config = await loadConfig(options.config);
 
       console.log(pc.cyan('📦 Initializing datasources...'));
+      await loadDatasourceModules(config);
       const datasources = initializeDatasources(config);
 
       console.log(pc.cyan('📄 Generating files...'));
@@ -236,6 +660,123 @@ program
     }
   });
 
+/**
+ * embeds command
+ */
+program
+  .command('embeds [names...]')
+  .description('List registered embeds with their parameters and usage')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .option('-f, --format <format>', 'Output format (text | markdown | json)', 'text')
+  .option('-o, --output <path>', 'Write the catalog to a file instead of stdout')
+  .option('--heading-level <level>', 'Heading level for embed names in markdown', parseHeadingLevel, 2)
+  .action(async (names: string[], options) => {
+    try {
+      if (!['text', 'markdown', 'json'].includes(options.format)) {
+        console.error(pc.red(`Error: Unknown format "${options.format}" (use "text", "markdown" or "json")`));
+        process.exit(1);
+      }
+
+      const config = await loadConfig(options.config);
+      const embeds = await loadEmbeds(config.embeds_dir ?? './embeds');
+
+      const unknownNames = names.filter((name) => !(name in embeds));
+      if (unknownNames.length > 0) {
+        console.error(pc.red(`Error: Unknown embed(s): ${unknownNames.join(', ')}`));
+        process.exit(1);
+      }
+
+      const selected =
+        names.length > 0
+          ? Object.fromEntries(names.map((name) => [name, embeds[name]!]))
+          : embeds;
+      const output = renderEmbedCatalog(createEmbedCatalog(selected), options.format, {
+        headingLevel: options.headingLevel,
+      });
+
+      if (options.output) {
+        await writeFile(options.output, output + '\n', { encoding: 'utf-8' });
+        console.log(pc.green(`✅ Wrote ${Object.keys(selected).length} embed(s) to ${options.output}`));
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error(pc.red('❌ Listing embeds failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * graph command
+ */
+program
+  .command('graph')
+  .description('Print the dependency graph of documents, embeds and datasources')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .option('-f, --format <format>', 'Output format (dot | mermaid | json)', 'dot')
+  .option('-o, --output <path>', 'Write the graph to a file instead of stdout')
+  .action(async (options) => {
+    try {
+      if (!['dot', 'mermaid', 'json'].includes(options.format)) {
+        console.error(pc.red(`Error: Unknown format "${options.format}" (use "dot", "mermaid" or "json")`));
+        process.exit(1);
+      }
+
+      const config = await loadConfig(options.config);
+      await loadDatasourceModules(config);
+      const embeds = await loadEmbeds(config.embeds_dir ?? './embeds');
+
+      // Same graph as watch mode (with dependencies recorded in previous builds)
+      const dependencies = await DependencyStore.load(config);
+      const depGraph = new DependencyGraph(config, embeds, dependencies);
+      await depGraph.build();
+
+      const format = options.format as DependencyGraphFormat;
+      const output =
+        format === 'json'
+          ? JSON.stringify(depGraph.toJSON(), null, 2)
+          : format === 'mermaid'
+            ? depGraph.toMermaid()
+            : depGraph.toDot();
+
+      if (options.output) {
+        await writeFile(options.output, output + '\n', { encoding: 'utf-8' });
+        console.log(pc.green(`✅ Wrote dependency graph to ${options.output}`));
+      } else {
+        console.log(output);
+      }
+    } catch (error) {
+      console.error(pc.red('❌ Building dependency graph failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * clean command
+ */
+program
+  .command('clean')
+  .description('Remove the build cache')
+  .option('-c, --config <path>', 'Path to config file', 'embedoc.config.yaml')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig(options.config);
+      const cacheFile = relative(process.cwd(), getCacheFile(config));
+
+      if (await clearBuildCache(config)) {
+        console.log(pc.green(`✅ Removed ${cacheFile}`));
+      } else {
+        console.log(pc.gray(`No build cache found (${cacheFile})`));
+      }
+    } catch (error) {
+      console.error(pc.red('❌ Clean failed:'));
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 /**
  * watch command
  */
@@ -251,15 +792,17 @@ program
       const config = await loadConfig(options.config);
 
       console.log(pc.cyan('📦 Initializing datasources...'));
+      await loadDatasourceModules(config);
       let datasources = initializeDatasources(config);
 
       console.log(pc.cyan('📝 Loading embeds...'));
       const embedsDir = resolve(config.embeds_dir ?? './embeds');
       let embeds = await loadEmbeds(embedsDir);
 
-      // Build dependency graph
+      // Build dependency graph (with dependencies recorded in previous builds)
       console.log(pc.cyan('🔗 Building dependency graph...'));
-      let depGraph = new DependencyGraph(config, embeds);
+      const dependencies = await DependencyStore.load(config);
+      let depGraph = new DependencyGraph(config, embeds, dependencies);
       await depGraph.build();
 
       if (options.debugDeps) {
@@ -310,35 +853,14 @@ program
         // Rebuild dependency graph if embeds were reloaded
         if (embedsReloaded) {
           console.log(pc.cyan('   Rebuilding dependency graph...'));
-          depGraph = new DependencyGraph(config, embeds);
+          depGraph = new DependencyGraph(config, embeds, dependencies);
           await depGraph.build();
         }
 
         // Identify affected documents
-        const affectedDocs = new Set<string>();
-
-        for (const [filePath] of changes) {
-          const affected = depGraph.getAffectedDocuments(filePath);
-          for (const doc of affected) {
-            affectedDocs.add(doc);
-          }
-        }
-
-        if (affectedDocs.size === 0) {
-          // Changed file might be a document itself
-          for (const [filePath] of changes) {
-            const absolutePath = resolve(filePath);
-            // Check if matches target patterns
-            for (const target of config.targets) {
-              const { glob } = await import('glob');
-              const matches = await glob(target.pattern, { absolute: true });
-              if (matches.includes(absolutePath)) {
-                affectedDocs.add(absolutePath);
-                break;
-              }
-            }
-          }
-        }
+        const affectedDocs = new Set(
+          await findAffectedDocuments(config, embeds, depGraph, [...changes.keys()])
+        );
 
         if (affectedDocs.size === 0) {
           console.log(pc.gray('\n   No affected documents found'));
@@ -359,7 +881,11 @@ program
           const result = await build(config, embeds, datasources, {
             verbose: options.verbose,
             specificFiles: Array.from(affectedDocs),
+            dependencies,
           });
+          await dependencies.save();
+
+          printDiagnostics(result.results);
 
           if (result.totalMarkersUpdated > 0) {
             console.log(pc.green(`   ✅ Updated ${result.totalMarkersUpdated} marker(s)`));
@@ -367,9 +893,10 @@ program
             console.log(pc.gray('   No markers updated'));
           }
 
-          // Update dependency graph
-          depGraph = new DependencyGraph(config, embeds);
+          // Update dependency graph (and watch files embeds started reading)
+          depGraph = new DependencyGraph(config, embeds, dependencies);
           await depGraph.build();
+          watcher.add(depGraph.getWatchPaths());
         } catch (error) {
           console.error(pc.red('   ❌ Error:'), error);
         }
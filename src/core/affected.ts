@@ -0,0 +1,126 @@
+/**
+ * Affected Documents
+ * Find documents to rebuild for a set of changed files
+ * (watch mode and `embedoc affected`)
+ */
+
+import { execFile } from 'node:child_process';
+import { basename, extname, resolve, sep } from 'node:path';
+import { promisify } from 'node:util';
+import { glob } from 'glob';
+import type { EmbedifyConfig, EmbedDefinition } from '../types/index.js';
+import type { DependencyGraph } from './dependency.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Check if a file in the embeds directory defines a registered embed
+ * (same file name inference as the dependency graph)
+ */
+function isEmbedFile(filePath: string, embeds: Record<string, EmbedDefinition>): boolean {
+  const name = basename(filePath, extname(filePath));
+  const snakeCase = name.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+  return name !== 'index' && (name in embeds || snakeCase in embeds);
+}
+
+/**
+ * Find documents affected by changed files
+ *
+ * - Documents, embeds, datasources and files read by embeds: through the dependency graph
+ * - Other files in `embeds_dir` (`index.ts`, shared helpers): every document using an embed
+ * - Documents not analyzed yet (e.g. new files): when they match a target
+ *
+ * @param graph - Dependency graph built with `build()`
+ * @param changedFiles - Changed (added, modified or deleted) file paths
+ * @returns Absolute paths of affected documents (sorted)
+ */
+export async function findAffectedDocuments(
+  config: EmbedifyConfig,
+  embeds: Record<string, EmbedDefinition>,
+  graph: DependencyGraph,
+  changedFiles: string[]
+): Promise<string[]> {
+  const embedsDir = resolve(config.embeds_dir ?? './embeds');
+  const affected = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const filePath of changedFiles) {
+    const absolutePath = resolve(filePath);
+    const documents = graph.getAffectedDocuments(absolutePath);
+
+    if (
+      documents.length === 0 &&
+      absolutePath.startsWith(embedsDir + sep) &&
+      /\.[cm]?[jt]s$/.test(absolutePath) &&
+      !isEmbedFile(absolutePath, embeds)
+    ) {
+      documents.push(...graph.getDocumentsUsingEmbeds());
+    }
+
+    if (documents.length === 0) {
+      unmatched.push(absolutePath);
+    }
+    for (const document of documents) {
+      affected.add(document);
+    }
+  }
+
+  // Changed files might be documents the graph does not know yet
+  if (unmatched.length > 0) {
+    for (const target of config.targets) {
+      const matches = new Set(
+        await glob(target.pattern, {
+          ignore: target.exclude ?? [],
+          nodir: true,
+          absolute: true,
+        })
+      );
+      for (const filePath of unmatched) {
+        if (matches.has(filePath)) {
+          affected.add(filePath);
+        }
+      }
+    }
+  }
+
+  return [...affected].sort();
+}
+
+/**
+ * List files changed since a git ref: committed on this branch since it forked
+ * from the ref, uncommitted and untracked (uses the `git` binary)
+ *
+ * @param since - Git ref, e.g. `origin/main`
+ * @param cwd - Directory inside the repository (default: working directory)
+ * @returns Absolute file paths (sorted)
+ */
+export async function getChangedFilesSince(
+  since: string,
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const git = async (args: string[]): Promise<string[]> => {
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['-C', cwd, '-c', 'core.quotepath=off', ...args],
+        { encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 }
+      );
+      return stdout.split('\n').filter((line) => line !== '');
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const message = stderr || (error instanceof Error ? error.message : String(error));
+      throw new Error(`Could not list files changed since "${since}": ${message}`);
+    }
+  };
+
+  const [root] = await git(['rev-parse', '--show-toplevel']);
+  const [changed, untracked] = await Promise.all([
+    // Renames are listed as deletion and addition so both paths count
+    git(['diff', '--name-only', '--no-renames', '--merge-base', since, '--']),
+    git(['ls-files', '--others', '--exclude-standard', '--full-name', ':/']),
+  ]);
+
+  return [...new Set([...changed, ...untracked])]
+    .map((file) => resolve(root ?? cwd, file))
+    .sort();
+}
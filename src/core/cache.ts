@@ -0,0 +1,364 @@
+/**
+ * Build Cache
+ * Skip documents whose inputs (document, embeds, datasources, config) are unchanged
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir, rm, stat } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { basename, dirname, join, relative, resolve } from 'node:path';
+import { glob } from 'glob';
+import type {
+  EmbedifyConfig,
+  EmbedDefinition,
+  DatasourceConfig,
+  TargetConfig,
+} from '../types/index.js';
+import { DependencyGraph } from './dependency.js';
+import type { DependencyStore } from './dependency-store.js';
+import { getDatasourcePaths } from '../datasources/index.js';
+
+/**
+ * Cache format version (bump when the same inputs may render differently)
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * embedoc package version (a new release may render the same inputs differently)
+ */
+const EMBEDOC_VERSION = (
+  createRequire(import.meta.url)('../../package.json') as { version: string }
+).version;
+
+/**
+ * Default cache directory
+ */
+export const DEFAULT_CACHE_DIR = '.embedoc';
+
+/**
+ * Cache file contents
+ */
+interface CacheData {
+  version: number;
+  /** Input hash for each document (relative path) */
+  files: Record<string, string>;
+}
+
+/**
+ * SHA-256 hex digest
+ */
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Get cache file path
+ */
+export function getCacheFile(config: EmbedifyConfig): string {
+  return resolve(config.cache?.dir ?? DEFAULT_CACHE_DIR, 'cache.json');
+}
+
+/**
+ * Remove cache file
+ * @returns Whether a cache file existed
+ */
+export async function clearBuildCache(config: EmbedifyConfig): Promise<boolean> {
+  const cacheFile = getCacheFile(config);
+  try {
+    await stat(cacheFile);
+  } catch {
+    return false;
+  }
+  await rm(cacheFile, { force: true });
+  return true;
+}
+
+/**
+ * Incremental build cache
+ *
+ * Each document is keyed by the hash of its content, the embeds directory
+ * (and datasource modules), the datasources its embeds depend on, the files
+ * its embeds read in the last build, the configuration and the embedoc version.
+ * Embeds without `dependsOn` are assumed to depend on every datasource.
+ * Inputs it cannot see (files read without `ctx.readFile`, modules imported
+ * from outside `embeds_dir`) are not part of the key, so `check` does not use it.
+ */
+export class BuildCache {
+  private config: EmbedifyConfig;
+  private embeds: Record<string, EmbedDefinition>;
+  private graph: DependencyGraph;
+  private dependencies?: DependencyStore;
+  private cacheFile: string;
+  private entries: Record<string, string> = {};
+  private dirty = false;
+  private configHash: string;
+  private embedsHash: Promise<string> | null = null;
+  private datasourceHashes: Map<string, Promise<string>> = new Map();
+
+  /**
+   * @param dependencies - Datasources and files accessed by embeds in previous builds
+   */
+  constructor(
+    config: EmbedifyConfig,
+    embeds: Record<string, EmbedDefinition>,
+    dependencies?: DependencyStore
+  ) {
+    this.config = config;
+    this.embeds = embeds;
+    this.dependencies = dependencies;
+    this.graph = new DependencyGraph(config, embeds);
+    this.cacheFile = getCacheFile(config);
+
+    // Settings that do not affect output are left out
+    const { cache: _cache, concurrency: _concurrency, ...outputConfig } = config;
+    this.configHash = sha256(JSON.stringify(outputConfig));
+  }
+
+  /**
+   * Create cache and load existing entries
+   */
+  static async load(
+    config: EmbedifyConfig,
+    embeds: Record<string, EmbedDefinition>,
+    dependencies?: DependencyStore
+  ): Promise<BuildCache> {
+    const cache = new BuildCache(config, embeds, dependencies);
+    await cache.read();
+    return cache;
+  }
+
+  /**
+   * Read cache file (missing, corrupt or outdated caches start empty)
+   */
+  private async read(): Promise<void> {
+    try {
+      const data = JSON.parse(
+        await readFile(this.cacheFile, { encoding: 'utf-8' })
+      ) as Partial<CacheData>;
+      if (data.version === CACHE_VERSION && data.files) {
+        this.entries = data.files;
+      }
+    } catch {
+      this.entries = {};
+    }
+  }
+
+  /**
+   * Write cache file (only when entries changed)
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const files: Record<string, string> = {};
+    for (const key of Object.keys(this.entries).sort()) {
+      files[key] = this.entries[key] as string;
+    }
+
+    const data: CacheData = { version: CACHE_VERSION, files };
+    await mkdir(dirname(this.cacheFile), { recursive: true });
+    await writeFile(this.cacheFile, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    this.dirty = false;
+  }
+
+  /**
+   * Check if document inputs are unchanged since it was last built
+   */
+  async isFresh(
+    filePath: string,
+    content: string,
+    targetConfig: TargetConfig
+  ): Promise<boolean> {
+    const entry = this.entries[this.getEntryKey(filePath)];
+    return entry !== undefined && entry === (await this.computeHash(filePath, content, targetConfig));
+  }
+
+  /**
+   * Record document content as up to date
+   */
+  async update(
+    filePath: string,
+    content: string,
+    targetConfig: TargetConfig
+  ): Promise<void> {
+    const hash = await this.computeHash(filePath, content, targetConfig);
+    const key = this.getEntryKey(filePath);
+    if (this.entries[key] !== hash) {
+      this.entries[key] = hash;
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Forget document (e.g. when it failed or has diagnostics)
+   */
+  remove(filePath: string): void {
+    const key = this.getEntryKey(filePath);
+    if (key in this.entries) {
+      delete this.entries[key];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Entry key (path relative to the working directory)
+   */
+  private getEntryKey(filePath: string): string {
+    return relative(process.cwd(), resolve(filePath));
+  }
+
+  /**
+   * Compute input hash for document content
+   */
+  private async computeHash(
+    filePath: string,
+    content: string,
+    targetConfig: TargetConfig
+  ): Promise<string> {
+    await this.graph.analyzeDocument(filePath, targetConfig, content);
+
+    const recorded = this.dependencies?.get(filePath);
+
+    const datasources: Record<string, string> = {};
+    for (const name of this.getDatasourceNames(filePath, recorded?.datasources ?? [])) {
+      datasources[name] = await this.hashDatasource(name);
+    }
+
+    // Files are hashed every time (documents may read files the build writes)
+    const files: Record<string, string> = {};
+    for (const file of recorded?.files ?? []) {
+      files[this.getEntryKey(file)] = await hashPath(file);
+    }
+
+    return sha256(
+      JSON.stringify({
+        version: CACHE_VERSION,
+        embedoc: EMBEDOC_VERSION,
+        config: this.configHash,
+        embeds: await this.hashEmbeds(),
+        document: sha256(content),
+        datasources,
+        files,
+      })
+    );
+  }
+
+  /**
+   * Get names of datasources the document's embeds depend on
+   * (declared with `dependsOn` or recorded in the last build)
+   */
+  private getDatasourceNames(filePath: string, recorded: string[]): string[] {
+    const names = new Set<string>(recorded);
+    const allNames = Object.keys(this.config.datasources ?? {});
+
+    for (const node of this.graph.getDependencies(filePath)) {
+      if (node.type !== 'embed') {
+        continue;
+      }
+      const embed = this.embeds[basename(node.path).replace(/^embed:/, '')];
+      for (const name of embed?.dependsOn ?? allNames) {
+        names.add(name);
+      }
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Hash all files in the embeds directory and the datasource modules
+   * (once per cache instance)
+   */
+  private hashEmbeds(): Promise<string> {
+    this.embedsHash ??= (async () => {
+      const embedsDir = resolve(this.config.embeds_dir ?? './embeds');
+      const files = await glob('**/*', {
+        cwd: embedsDir,
+        nodir: true,
+        ignore: ['**/node_modules/**'],
+      });
+
+      const hash = createHash('sha256');
+      for (const file of files.sort()) {
+        hash.update(file);
+        hash.update(sha256(await readFile(join(embedsDir, file))));
+      }
+      for (const modulePath of this.config.datasource_modules ?? []) {
+        hash.update(modulePath);
+        hash.update(sha256(await readFile(resolve(modulePath))));
+      }
+      return hash.digest('hex');
+    })();
+    return this.embedsHash;
+  }
+
+  /**
+   * Hash datasource inputs (once per cache instance)
+   */
+  private hashDatasource(name: string): Promise<string> {
+    let hash = this.datasourceHashes.get(name);
+    if (!hash) {
+      hash = hashDatasourceConfig(
+        this.config.datasources?.[name],
+        this.config.datasources ?? {}
+      );
+      this.datasourceHashes.set(name, hash);
+    }
+    return hash;
+  }
+}
+
+/**
+ * Hash file content, or names and contents of all files in a directory
+ */
+async function hashPath(path: string): Promise<string> {
+  try {
+    if (!(await stat(path)).isDirectory()) {
+      return sha256(await readFile(path));
+    }
+
+    const hash = createHash('sha256');
+    const files = await glob('**/*', { cwd: path, nodir: true, dot: true });
+    for (const file of files.sort()) {
+      hash.update(file);
+      hash.update(sha256(await readFile(join(path, file))));
+    }
+    return hash.digest('hex');
+  } catch {
+    return 'missing';
+  }
+}
+
+/**
+ * Hash datasource inputs: content of the files (or directories) it reads,
+ * matched file list with sizes and modification times for `pattern`
+ */
+async function hashDatasourceConfig(
+  config: DatasourceConfig | undefined,
+  datasources: Record<string, DatasourceConfig>
+): Promise<string> {
+  if (!config) {
+    return 'undefined';
+  }
+
+  const paths = getDatasourcePaths(config, datasources);
+  if (paths.length > 0) {
+    const hash = createHash('sha256');
+    for (const path of paths) {
+      hash.update(await hashPath(resolve(path)));
+    }
+    return hash.digest('hex');
+  }
+
+  if (config.pattern) {
+    const hash = createHash('sha256');
+    const files = await glob(config.pattern, { nodir: true });
+    for (const file of files.sort()) {
+      const stats = await stat(file);
+      hash.update(`${file}\0${stats.size}\0${stats.mtimeMs}\n`);
+    }
+    return hash.digest('hex');
+  }
+
+  return sha256(JSON.stringify(config));
+}
@@ -0,0 +1,205 @@
+/**
+ * Embed Catalog
+ * Describe registered embeds (description, parameters, datasources and usage)
+ */
+
+import type { EmbedDefinition, EmbedParamSchema, EmbedParamType } from '../types/index.js';
+import { createMarkdownHelper } from '../helpers/markdown.js';
+
+/**
+ * Catalog parameter entry
+ */
+export interface EmbedCatalogParam {
+  name: string;
+  type: EmbedParamType;
+  required: boolean;
+  default?: unknown;
+  enum?: readonly unknown[];
+  description?: string;
+}
+
+/**
+ * Catalog entry for a single embed
+ */
+export interface EmbedCatalogEntry {
+  /** Embed name (as used in markers) */
+  name: string;
+  description?: string;
+  /** Datasources from `dependsOn` */
+  datasources: string[];
+  /** Parameters from the `params` schema */
+  params: EmbedCatalogParam[];
+  /** Example marker */
+  usage: string;
+}
+
+/**
+ * Catalog output format
+ */
+export type EmbedCatalogFormat = 'text' | 'markdown' | 'json';
+
+/**
+ * Catalog rendering options
+ */
+export interface EmbedCatalogRenderOptions {
+  /** Heading level for embed names in markdown, 1 to 6 (default: 2) */
+  headingLevel?: number;
+}
+
+/**
+ * Example attribute value for a required parameter
+ */
+function exampleValue(schema: EmbedParamSchema): string {
+  if (schema.enum && schema.enum.length > 0) {
+    return JSON.stringify(schema.enum[0]);
+  }
+  switch (schema.type ?? 'string') {
+    case 'number':
+    case 'integer':
+      return '0';
+    case 'array':
+      return '[]';
+    case 'object':
+      return '{}';
+    default:
+      return '"..."';
+  }
+}
+
+/**
+ * Build an example marker using the required parameters
+ */
+function createUsage(name: string, definition: EmbedDefinition): string {
+  const attributes = Object.entries(definition.params ?? {})
+    .filter(([, schema]) => schema.required)
+    .map(([param, schema]) =>
+      schema.type === 'boolean' ? ` ${param}` : ` ${param}=${exampleValue(schema)}`
+    )
+    .join('');
+  return `<!--@embedoc:${name}${attributes}-->\n<!--@embedoc:end-->`;
+}
+
+/**
+ * Create catalog entries for embeds (sorted by name)
+ */
+export function createEmbedCatalog(
+  embeds: Record<string, EmbedDefinition>
+): EmbedCatalogEntry[] {
+  return Object.keys(embeds)
+    .sort()
+    .map((name) => {
+      const definition = embeds[name] as EmbedDefinition;
+      return {
+        name,
+        description: definition.description,
+        datasources: definition.dependsOn ?? [],
+        params: Object.entries(definition.params ?? {}).map(([paramName, schema]) => ({
+          name: paramName,
+          type: schema.type ?? 'string',
+          required: schema.required ?? false,
+          default: schema.default,
+          enum: schema.enum,
+          description: schema.description,
+        })),
+        usage: createUsage(name, definition),
+      };
+    });
+}
+
+/**
+ * Format parameter type (enum values are listed)
+ */
+function formatType(param: EmbedCatalogParam): string {
+  return param.enum ? param.enum.map((v) => JSON.stringify(v)).join(' | ') : param.type;
+}
+
+/**
+ * Wrap text in inline code
+ */
+function inlineCode(text: string): string {
+  return `\`${text}\``;
+}
+
+/**
+ * Render catalog as markdown
+ */
+function renderMarkdown(catalog: EmbedCatalogEntry[], options: EmbedCatalogRenderOptions): string {
+  const markdown = createMarkdownHelper();
+  const level = options.headingLevel ?? 2;
+  if (!Number.isInteger(level) || level < 1 || level > 6) {
+    throw new Error(`Invalid heading level: ${level} (must be 1 to 6)`);
+  }
+  const heading = '#'.repeat(level);
+
+  return catalog
+    .map((entry) => {
+      const parts = [`${heading} ${inlineCode(entry.name)}`];
+      if (entry.description) {
+        parts.push(entry.description);
+      }
+      if (entry.datasources.length > 0) {
+        parts.push(`Datasources: ${entry.datasources.map(inlineCode).join(', ')}`);
+      }
+      if (entry.params.length > 0) {
+        parts.push(
+          markdown.table(
+            ['Parameter', 'Type', 'Required', 'Default', 'Description'],
+            entry.params.map((param) => [
+              inlineCode(param.name),
+              formatType(param),
+              param.required ? '✔' : '',
+              param.default !== undefined ? inlineCode(JSON.stringify(param.default)) : '',
+              param.description ?? '',
+            ])
+          )
+        );
+      }
+      parts.push(markdown.codeBlock(entry.usage, 'markdown'));
+      return parts.join('\n\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Render catalog as plain text
+ */
+function renderText(catalog: EmbedCatalogEntry[]): string {
+  return catalog
+    .map((entry) => {
+      const lines = [entry.description ? `${entry.name} - ${entry.description}` : entry.name];
+      if (entry.datasources.length > 0) {
+        lines.push(`  datasources: ${entry.datasources.join(', ')}`);
+      }
+      if (entry.params.length > 0) {
+        lines.push('  params:');
+        for (const param of entry.params) {
+          const flags = [formatType(param)];
+          if (param.required) flags.push('required');
+          if (param.default !== undefined) flags.push(`default: ${JSON.stringify(param.default)}`);
+          const description = param.description ? ` ${param.description}` : '';
+          lines.push(`    ${param.name} (${flags.join(', ')})${description}`);
+        }
+      }
+      lines.push(`  usage: ${entry.usage.replace('\n', '')}`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Render catalog in the given format
+ */
+export function renderEmbedCatalog(
+  catalog: EmbedCatalogEntry[],
+  format: EmbedCatalogFormat = 'text',
+  options: EmbedCatalogRenderOptions = {}
+): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(catalog, options);
+    case 'json':
+      return JSON.stringify(catalog, null, 2);
+    default:
+      return renderText(catalog);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Dependency Store
+ * Persist datasources and files accessed by each document's embeds during builds,
+ * so the dependency graph knows about them without `dependsOn`
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname, relative, resolve } from 'node:path';
+import type { AccessedDependencies, EmbedifyConfig } from '../types/index.js';
+import { DEFAULT_CACHE_DIR } from './cache.js';
+
+/**
+ * Dependency file format version
+ */
+const STORE_VERSION = 1;
+
+/**
+ * Dependency file contents
+ */
+interface StoreData {
+  version: number;
+  /** Accessed dependencies for each document (paths relative to the working directory) */
+  documents: Record<string, AccessedDependencies>;
+}
+
+/**
+ * Get dependency file path
+ */
+export function getDependencyFile(config: EmbedifyConfig): string {
+  return resolve(config.cache?.dir ?? DEFAULT_CACHE_DIR, 'dependencies.json');
+}
+
+/**
+ * Path relative to the working directory (forward slashes)
+ */
+function toKey(filePath: string): string {
+  return relative(process.cwd(), resolve(filePath)).split('\\').join('/');
+}
+
+/**
+ * Recorded dependencies of documents
+ */
+export class DependencyStore {
+  private file: string;
+  private documents: Record<string, AccessedDependencies> = {};
+  private dirty = false;
+
+  constructor(config: EmbedifyConfig) {
+    this.file = getDependencyFile(config);
+  }
+
+  /**
+   * Create store and load recorded dependencies
+   */
+  static async load(config: EmbedifyConfig): Promise<DependencyStore> {
+    const store = new DependencyStore(config);
+    await store.read();
+    return store;
+  }
+
+  /**
+   * Read dependency file (missing, corrupt or outdated files start empty)
+   */
+  private async read(): Promise<void> {
+    try {
+      const data = JSON.parse(
+        await readFile(this.file, { encoding: 'utf-8' })
+      ) as Partial<StoreData>;
+      if (data.version === STORE_VERSION && data.documents) {
+        this.documents = data.documents;
+      }
+    } catch {
+      this.documents = {};
+    }
+  }
+
+  /**
+   * Write dependency file (only when entries changed)
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const documents: Record<string, AccessedDependencies> = {};
+    for (const key of Object.keys(this.documents).sort()) {
+      documents[key] = this.documents[key] as AccessedDependencies;
+    }
+
+    const data: StoreData = { version: STORE_VERSION, documents };
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(this.file, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    this.dirty = false;
+  }
+
+  /**
+   * Get recorded dependencies of a document (files as absolute paths)
+   */
+  get(filePath: string): AccessedDependencies | undefined {
+    const entry = this.documents[toKey(filePath)];
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      datasources: [...entry.datasources],
+      files: entry.files.map((file) => resolve(file)),
+    };
+  }
+
+  /**
+   * Record dependencies accessed while rendering a document
+   * (replaces what was recorded before; documents without any are forgotten)
+   */
+  record(filePath: string, dependencies: AccessedDependencies): void {
+    const key = toKey(filePath);
+    const entry: AccessedDependencies = {
+      datasources: [...new Set(dependencies.datasources)].sort(),
+      files: [...new Set(dependencies.files.map(toKey))].sort(),
+    };
+
+    if (entry.datasources.length === 0 && entry.files.length === 0) {
+      if (key in this.documents) {
+        delete this.documents[key];
+        this.dirty = true;
+      }
+      return;
+    }
+
+    if (JSON.stringify(this.documents[key]) !== JSON.stringify(entry)) {
+      this.documents[key] = entry;
+      this.dirty = true;
+    }
+  }
+}
@@ -4,19 +4,27 @@
  */
 
 import { readFile } from 'node:fs/promises';
-import { resolve, relative } from 'node:path';
+import { resolve, relative, sep } from 'node:path';
 import { glob } from 'glob';
 import type {
   EmbedifyConfig,
   EmbedDefinition,
   TargetConfig,
 } from '../types/index.js';
-import { parseFrontmatter, parseMarkers, getCommentStyle } from './parser.js';
+import {
+  parseFrontmatter,
+  parseMarkers,
+  flattenMarkers,
+  getCommentStyle,
+  getMarkerScanOptions,
+} from './parser.js';
+import { getDatasourcePaths } from '../datasources/index.js';
+import type { DependencyStore } from './dependency-store.js';
 
 /**
  * Dependency type
  */
-export type DependencyType = 'document' | 'embed' | 'datasource';
+export type DependencyType = 'document' | 'embed' | 'datasource' | 'file';
 
 /**
  * Dependency node
@@ -30,6 +38,64 @@ export interface DependencyNode {
   dependedBy: Set<string>;
 }
 
+/**
+ * Dependency graph output format
+ */
+export type DependencyGraphFormat = 'json' | 'dot' | 'mermaid';
+
+/**
+ * Datasource node of an exported graph
+ */
+export interface DependencyGraphDatasource {
+  /** Path relative to the working directory */
+  path: string;
+  /** Configured datasources reading this path */
+  names: string[];
+}
+
+/**
+ * Edge of an exported graph (`from` depends on `to`)
+ */
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Exported dependency graph
+ *
+ * Documents, datasources and files are identified by their path relative to
+ * the working directory, embeds by `embed:<name>`.
+ */
+export interface DependencyGraphJSON {
+  documents: string[];
+  /** Embed names */
+  embeds: string[];
+  datasources: DependencyGraphDatasource[];
+  /** Files read by embeds (`ctx.readFile`, `ctx.glob`) */
+  files: string[];
+  edges: DependencyGraphEdge[];
+}
+
+/**
+ * Node order in exported graphs
+ */
+const NODE_TYPE_ORDER: DependencyType[] = ['document', 'embed', 'datasource', 'file'];
+
+/**
+ * Quote a DOT identifier or label
+ */
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Quote a Mermaid node label
+ */
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
+
 /**
  * Dependency graph
  */
@@ -38,16 +104,39 @@ export class DependencyGraph {
   private config: EmbedifyConfig;
   private embedsDir: string;
   private embeds: Record<string, EmbedDefinition>;
+  private store?: DependencyStore;
+  /** Files read by each configured datasource (computed once per build) */
+  private datasourcePaths: Map<string, string[]> = new Map();
 
+  /**
+   * @param store - Datasources and files accessed by embeds in previous builds
+   *   (added to the `dependsOn` declarations of embeds)
+   */
   constructor(
     config: EmbedifyConfig,
-    embeds: Record<string, EmbedDefinition>
+    embeds: Record<string, EmbedDefinition>,
+    store?: DependencyStore
   ) {
     this.config = config;
     this.embeds = embeds;
+    this.store = store;
     this.embedsDir = resolve(config.embeds_dir ?? './embeds');
   }
 
+  /**
+   * Get files read by a configured datasource (empty for unknown names)
+   * Cached, since datasource types may glob or parse a tsconfig to find them
+   */
+  private getDatasourcePaths(name: string): string[] {
+    let paths = this.datasourcePaths.get(name);
+    if (!paths) {
+      const dsConfig = this.config.datasources?.[name];
+      paths = dsConfig ? getDatasourcePaths(dsConfig, this.config.datasources) : [];
+      this.datasourcePaths.set(name, paths);
+    }
+    return paths;
+  }
+
   /**
    * Get or create node
    */
@@ -83,16 +172,19 @@ export class DependencyGraph {
 
   /**
    * Analyze document file and extract dependencies
+   * (content is read from the file unless given)
    */
   async analyzeDocument(
     filePath: string,
-    targetConfig: TargetConfig
+    targetConfig: TargetConfig,
+    documentContent?: string
   ): Promise<void> {
     const absolutePath = resolve(filePath);
     const docNode = this.getOrCreateNode('document', absolutePath);
 
     try {
-      const content = await readFile(absolutePath, { encoding: 'utf-8' });
+      const content =
+        documentContent ?? (await readFile(absolutePath, { encoding: 'utf-8' }));
       const commentStyle = getCommentStyle(
         targetConfig.comment_style,
         this.config.comment_styles
@@ -101,14 +193,21 @@ export class DependencyGraph {
       // Parse frontmatter
       const { content: bodyContent } = parseFrontmatter(content);
 
-      // Parse markers to extract embed names
-      const markers = parseMarkers(bodyContent, commentStyle);
+      // Parse markers (including nested ones) to extract embed names
+      const markers = flattenMarkers(
+        parseMarkers(bodyContent, commentStyle, getMarkerScanOptions(targetConfig, absolutePath))
+      );
       const embedNames = new Set(markers.map((m) => m.templateName));
+      const recorded = this.store?.get(absolutePath);
+      let usesAllDatasources = false;
 
       // Add dependency for each embed
       for (const embedName of embedNames) {
         const embed = this.embeds[embedName];
         if (embed) {
+          // Without dependsOn (and nothing recorded yet), any datasource may be used
+          usesAllDatasources ||= !embed.dependsOn && !recorded;
+
           // Create embed node (virtual path)
           const embedPath = `embed:${embedName}`;
           const embedNode = this.getOrCreateNode('embed', embedPath);
@@ -120,9 +219,7 @@ export class DependencyGraph {
           // Embed -> Datasource dependency
           if (embed.dependsOn) {
             for (const dsName of embed.dependsOn) {
-              const dsConfig = this.config.datasources?.[dsName];
-              if (dsConfig?.path) {
-                const dsPath = resolve(dsConfig.path);
+              for (const dsPath of this.getDatasourcePaths(dsName)) {
                 const dsNode = this.getOrCreateNode('datasource', dsPath);
 
                 embedNode.dependsOn.add(dsNode.path);
@@ -132,6 +229,27 @@ export class DependencyGraph {
           }
         }
       }
+
+      // Document -> Every datasource (like the build cache does)
+      if (usesAllDatasources) {
+        for (const dsName of Object.keys(this.config.datasources ?? {})) {
+          for (const dsPath of this.getDatasourcePaths(dsName)) {
+            this.addDependency(docNode.path, this.getOrCreateNode('datasource', dsPath).path);
+          }
+        }
+      }
+
+      // Document -> Datasources and files its embeds accessed in the last build
+      if (recorded) {
+        for (const dsName of recorded.datasources) {
+          for (const dsPath of this.getDatasourcePaths(dsName)) {
+            this.addDependency(docNode.path, this.getOrCreateNode('datasource', dsPath).path);
+          }
+        }
+        for (const file of recorded.files) {
+          this.addDependency(docNode.path, this.getOrCreateNode('file', file).path);
+        }
+      }
     } catch {
       // Ignore file read errors
     }
@@ -142,6 +260,7 @@ export class DependencyGraph {
    */
   async build(): Promise<void> {
     this.nodes.clear();
+    this.datasourcePaths.clear();
 
     for (const targetConfig of this.config.targets) {
       const files = await glob(targetConfig.pattern, {
@@ -165,10 +284,13 @@ export class DependencyGraph {
     // Find changed node
     let startNode = this.nodes.get(normalizedPath);
 
-    // If datasource file, search by path
+    // If datasource file, search by path (or a file inside a datasource directory)
     if (!startNode) {
       for (const node of this.nodes.values()) {
-        if (node.type === 'datasource' && node.path === normalizedPath) {
+        if (
+          node.type === 'datasource' &&
+          (node.path === normalizedPath || normalizedPath.startsWith(node.path + sep))
+        ) {
           startNode = node;
           break;
         }
@@ -230,17 +352,60 @@ export class DependencyGraph {
   }
 
   /**
-   * Get paths to watch (datasources, embeds directory)
+   * Get all documents using at least one embed
+   */
+  getDocumentsUsingEmbeds(): string[] {
+    const documents: string[] = [];
+    for (const node of this.nodes.values()) {
+      if (
+        node.type === 'document' &&
+        [...node.dependsOn].some((path) => this.nodes.get(path)?.type === 'embed')
+      ) {
+        documents.push(node.path);
+      }
+    }
+    return documents;
+  }
+
+  /**
+   * Get all nodes the specified path depends on (transitively)
+   */
+  getDependencies(path: string): DependencyNode[] {
+    const result: DependencyNode[] = [];
+    const visited = new Set<string>();
+    const queue = [...(this.nodes.get(resolve(path))?.dependsOn ?? [])];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const node = this.nodes.get(current);
+      if (!node || visited.has(current)) {
+        continue;
+      }
+      visited.add(current);
+      result.push(node);
+      queue.push(...node.dependsOn);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get paths to watch (datasources, files read by embeds, embeds directory)
    */
   getWatchPaths(): string[] {
     const paths: string[] = [];
 
     // Datasource paths
-    if (this.config.datasources) {
-      for (const dsConfig of Object.values(this.config.datasources)) {
-        if (dsConfig.path) {
-          paths.push(resolve(dsConfig.path));
-        }
+    for (const dsName of Object.keys(this.config.datasources ?? {})) {
+      for (const dsPath of this.getDatasourcePaths(dsName)) {
+        paths.push(resolve(dsPath));
+      }
+    }
+
+    // Files read by embeds
+    for (const node of this.nodes.values()) {
+      if (node.type === 'file') {
+        paths.push(node.path);
       }
     }
 
@@ -250,6 +415,137 @@ export class DependencyGraph {
     return paths;
   }
 
+  /**
+   * Node identifier in exported graphs (forward slashes)
+   */
+  private nodeId(node: DependencyNode): string {
+    return relative(process.cwd(), node.path).split(sep).join('/');
+  }
+
+  /**
+   * Nodes and edges sorted by type and identifier (for stable output)
+   */
+  private sortedNodes(): { nodes: DependencyNode[]; edges: DependencyGraphEdge[] } {
+    const nodes = [...this.nodes.values()].sort((a, b) => {
+      const byType = NODE_TYPE_ORDER.indexOf(a.type) - NODE_TYPE_ORDER.indexOf(b.type);
+      const aId = this.nodeId(a);
+      const bId = this.nodeId(b);
+      return byType !== 0 ? byType : aId < bId ? -1 : aId > bId ? 1 : 0;
+    });
+
+    const edges: DependencyGraphEdge[] = [];
+    for (const node of nodes) {
+      const targets = [...node.dependsOn]
+        .map((path) => this.nodes.get(path))
+        .filter((target): target is DependencyNode => target !== undefined)
+        .map((target) => this.nodeId(target))
+        .sort();
+      for (const to of targets) {
+        edges.push({ from: this.nodeId(node), to });
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Names of configured datasources by resolved path
+   */
+  private datasourceNames(): Map<string, string[]> {
+    const names = new Map<string, string[]>();
+    for (const name of Object.keys(this.config.datasources ?? {})) {
+      for (const dsPath of this.getDatasourcePaths(name)) {
+        const path = resolve(dsPath);
+        names.set(path, [...(names.get(path) ?? []), name]);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Human readable node label
+   */
+  private nodeLabel(node: DependencyNode, datasourceNames: Map<string, string[]>): string {
+    const id = this.nodeId(node);
+    if (node.type === 'embed') {
+      return id.slice('embed:'.length);
+    }
+    const names = datasourceNames.get(node.path);
+    return node.type === 'datasource' && names ? `${names.join(', ')} (${id})` : id;
+  }
+
+  /**
+   * Export graph as plain data (documents, embeds, datasources, files and edges)
+   */
+  toJSON(): DependencyGraphJSON {
+    const { nodes, edges } = this.sortedNodes();
+    const datasourceNames = this.datasourceNames();
+    const ofType = (type: DependencyType) => nodes.filter((node) => node.type === type);
+
+    return {
+      documents: ofType('document').map((node) => this.nodeId(node)),
+      embeds: ofType('embed').map((node) => this.nodeId(node).slice('embed:'.length)),
+      datasources: ofType('datasource').map((node) => ({
+        path: this.nodeId(node),
+        names: datasourceNames.get(node.path) ?? [],
+      })),
+      files: ofType('file').map((node) => this.nodeId(node)),
+      edges,
+    };
+  }
+
+  /**
+   * Export graph in Graphviz DOT format
+   */
+  toDot(): string {
+    const { nodes, edges } = this.sortedNodes();
+    const datasourceNames = this.datasourceNames();
+    const shapes: Record<DependencyType, string> = {
+      document: 'note',
+      embed: 'component',
+      datasource: 'cylinder',
+      file: 'box',
+    };
+
+    const lines = ['digraph embedoc {', '  rankdir=LR;'];
+    for (const node of nodes) {
+      lines.push(
+        `  ${dotString(this.nodeId(node))} [label=${dotString(this.nodeLabel(node, datasourceNames))}, shape=${shapes[node.type]}];`
+      );
+    }
+    for (const edge of edges) {
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Export graph as a Mermaid flowchart
+   */
+  toMermaid(): string {
+    const { nodes, edges } = this.sortedNodes();
+    const datasourceNames = this.datasourceNames();
+    const ids = new Map(nodes.map((node, index) => [this.nodeId(node), `n${index}`]));
+    const shapes: Record<DependencyType, [string, string]> = {
+      document: ['[', ']'],
+      embed: ['[[', ']]'],
+      datasource: ['[(', ')]'],
+      file: ['[/', '/]'],
+    };
+
+    const lines = ['flowchart LR'];
+    for (const node of nodes) {
+      const [open, close] = shapes[node.type];
+      const label = mermaidString(this.nodeLabel(node, datasourceNames));
+      lines.push(`  ${ids.get(this.nodeId(node))}${open}${label}${close}`);
+    }
+    for (const edge of edges) {
+      lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+    }
+    return lines.join('\n');
+  }
+
   /**
    * Debug: Dump graph state
    */
@@ -0,0 +1,250 @@
+/**
+ * Unified Diff
+ * Line-based diff for previewing changes before they are written
+ */
+
+/**
+ * Diff options
+ */
+export interface DiffOptions {
+  /** Label for the original content (default: 'a') */
+  oldLabel?: string;
+  /** Label for the new content (default: 'b') */
+  newLabel?: string;
+  /** Number of context lines around changes (default: 3) */
+  context?: number;
+  /** Line number of the first line (default: 1) */
+  startLine?: number;
+}
+
+/**
+ * Diff operation for a single line
+ */
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  /** Line number in the original content (0 if inserted) */
+  oldLine: number;
+  /** Line number in the new content (0 if deleted) */
+  newLine: number;
+}
+
+/**
+ * Maximum LCS table size before falling back to a full replacement
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split content into lines (a trailing newline does not produce an empty line)
+ */
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Check if content ends without a newline
+ */
+function lacksFinalNewline(content: string): boolean {
+  return content !== '' && !content.endsWith('\n');
+}
+
+/**
+ * Line keys for comparison: a last line without newline differs from the
+ * same text with one
+ */
+function compareKeys(lines: string[], noFinalNewline: boolean): string[] {
+  return noFinalNewline ? [...lines.slice(0, -1), `${lines[lines.length - 1]!}\0`] : lines;
+}
+
+/**
+ * Name line endings used in content (for changes in line endings only)
+ */
+function lineEndingName(content: string): string {
+  const crlf = content.includes('\r\n');
+  const lf = /(^|[^\r])\n/.test(content);
+  return crlf && lf ? 'mixed' : crlf ? 'CRLF' : 'LF';
+}
+
+/**
+ * Compute line operations between two line arrays
+ * Common prefix/suffix are trimmed, the remainder is diffed with LCS
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine['op'][] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMid = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMid = newLines.slice(prefix, newLines.length - suffix);
+  const ops: DiffLine['op'][] = new Array<DiffLine['op']>(prefix).fill(' ');
+
+  const n = oldMid.length;
+  const m = newMid.length;
+
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    // Nothing to align (or too large): delete all, then insert all
+    ops.push(...new Array<DiffLine['op']>(n).fill('-'));
+    ops.push(...new Array<DiffLine['op']>(m).fill('+'));
+  } else {
+    // LCS lengths of suffixes: table[i * (m + 1) + j] = LCS(oldMid[i..], newMid[j..])
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * width + j] =
+          oldMid[i] === newMid[j]
+            ? table[(i + 1) * width + j + 1]! + 1
+            : Math.max(table[(i + 1) * width + j]!, table[i * width + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMid[i] === newMid[j]) {
+        ops.push(' ');
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j]! >= table[i * width + j + 1]!) {
+        ops.push('-');
+        i++;
+      } else {
+        ops.push('+');
+        j++;
+      }
+    }
+    while (i++ < n) ops.push('-');
+    while (j++ < m) ops.push('+');
+  }
+
+  ops.push(...new Array<DiffLine['op']>(suffix).fill(' '));
+  return ops;
+}
+
+/**
+ * Format hunk range (e.g. "12,3" or "12" for a single line)
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 1) return String(start);
+  // Empty ranges point at the line before the change
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Create a unified diff between two contents
+ * Returns an empty string when the contents are identical.
+ * A missing final newline is marked with "\\ No newline at end of file",
+ * changes in line endings only with a "\\ Line endings ..." note.
+ */
+export function createUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  options: DiffOptions = {}
+): string {
+  const { oldLabel = 'a', newLabel = 'b', context = 3, startLine = 1 } = options;
+
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const oldNoNewline = lacksFinalNewline(oldContent);
+  const newNoNewline = lacksFinalNewline(newContent);
+  const ops = diffLines(compareKeys(oldLines, oldNoNewline), compareKeys(newLines, newNoNewline));
+
+  // Annotate operations with text and line numbers
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    if (op === ' ') {
+      lines.push({
+        op,
+        text: oldLines[oldIndex]!,
+        oldLine: startLine + oldIndex,
+        newLine: startLine + newIndex,
+      });
+      oldIndex++;
+      newIndex++;
+    } else if (op === '-') {
+      lines.push({ op, text: oldLines[oldIndex]!, oldLine: startLine + oldIndex, newLine: 0 });
+      oldIndex++;
+    } else {
+      lines.push({ op, text: newLines[newIndex]!, oldLine: 0, newLine: startLine + newIndex });
+      newIndex++;
+    }
+  }
+
+  // Group changes into hunks with surrounding context
+  const hunks: { start: number; end: number }[] = [];
+  lines.forEach((line, index) => {
+    if (line.op === ' ') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  if (hunks.length === 0) {
+    if (oldContent === newContent) {
+      return '';
+    }
+    const from = lineEndingName(oldContent);
+    const to = lineEndingName(newContent);
+    return [
+      `--- ${oldLabel}`,
+      `+++ ${newLabel}`,
+      from === to ? '\\ Line endings differ' : `\\ Line endings changed from ${from} to ${to}`,
+    ].join('\n');
+  }
+
+  const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const hunk of hunks) {
+    const hunkLines = lines.slice(hunk.start, hunk.end);
+    const oldCount = hunkLines.filter((l) => l.op !== '+').length;
+    const newCount = hunkLines.filter((l) => l.op !== '-').length;
+
+    // First line numbers of the hunk on each side
+    // (for empty ranges, the next line after the hunk)
+    const following = lines.slice(hunk.start);
+    const oldStart =
+      following.find((l) => l.oldLine > 0)?.oldLine ?? startLine + oldLines.length;
+    const newStart =
+      following.find((l) => l.newLine > 0)?.newLine ?? startLine + newLines.length;
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`
+    );
+    for (const l of hunkLines) {
+      output.push(l.op + l.text);
+      const lastOld = l.op !== '+' && oldNoNewline && l.oldLine === startLine + oldLines.length - 1;
+      const lastNew = l.op === '+' && newNoNewline && l.newLine === startLine + newLines.length - 1;
+      if (lastOld || lastNew) {
+        output.push('\\ No newline at end of file');
+      }
+    }
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,89 @@
+/**
+ * Embed File Access
+ * `ctx.resolvePath`, `ctx.readFile` and `ctx.glob`: paths are resolved against
+ * the document (or the project root), confined to the project root, and
+ * accessed files are recorded as dependencies of the document
+ */
+
+import { readFile, realpath } from 'node:fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'node:path';
+import { glob } from 'glob';
+import type { EmbedContext } from '../types/index.js';
+
+/**
+ * File helpers of the embed context
+ */
+export type EmbedFileAccess = Pick<EmbedContext, 'resolvePath' | 'readFile' | 'glob'>;
+
+/**
+ * Check if path is the root directory or inside it
+ */
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Create file helpers for an embed rendering a document
+ *
+ * @param documentPath - Document being processed (relative paths resolve against its directory)
+ * @param accessed - Receives absolute paths of files read or matched
+ * @param root - Project root: paths starting with `/` resolve against it,
+ *   and no path may leave it (default: working directory)
+ */
+export function createEmbedFileAccess(
+  documentPath: string,
+  accessed: Set<string>,
+  root: string = process.cwd()
+): EmbedFileAccess {
+  const projectRoot = resolve(root);
+  const documentDir = dirname(resolve(documentPath));
+
+  const resolvePath = (path: string): string => {
+    const resolved =
+      isAbsolute(path) && isInside(projectRoot, path)
+        ? resolve(path)
+        : path.startsWith('/')
+          ? resolve(projectRoot, `.${path}`)
+          : resolve(documentDir, path);
+    if (!isInside(projectRoot, resolved)) {
+      throw new Error(`Path "${path}" is outside the project root (${projectRoot})`);
+    }
+    return resolved;
+  };
+
+  return {
+    resolvePath,
+
+    async readFile(path: string): Promise<string> {
+      const resolved = resolvePath(path);
+      // Recorded before reading, so creating a missing file triggers a rebuild
+      accessed.add(resolved);
+
+      // Symbolic links must not lead out of the project either
+      const [realRoot, realFile] = await Promise.all([
+        realpath(projectRoot),
+        realpath(resolved),
+      ]);
+      if (!isInside(realRoot, realFile)) {
+        throw new Error(`Path "${path}" is outside the project root (${projectRoot})`);
+      }
+      return readFile(realFile, { encoding: 'utf-8' });
+    },
+
+    async glob(pattern: string): Promise<string[]> {
+      const cwd = pattern.startsWith('/') ? projectRoot : documentDir;
+      const files = await glob(pattern.replace(/^\/+/, ''), {
+        cwd,
+        nodir: true,
+        absolute: true,
+        ignore: ['**/node_modules/**'],
+      });
+      const matched = files.filter((file) => isInside(projectRoot, file)).sort();
+      for (const file of matched) {
+        accessed.add(file);
+      }
+      return matched;
+    },
+  };
+}
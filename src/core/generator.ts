@@ -13,6 +13,7 @@ import type {
   GenerateResult,
   Datasource,
 } from '../types/index.js';
+import { applyTransforms, validateTransforms } from './transforms.js';
 
 /**
  * Register built-in Handlebars helpers
@@ -221,8 +222,20 @@ export async function generateFromDatasource(
       console.log(`  Generator: ${generatorConfig.template}`);
     }
 
+    // Generator-specific transforms (datasource transforms are already applied by getAll())
+    let generatorRecords = records;
+    if (generatorConfig.transforms !== undefined) {
+      const errors = validateTransforms(generatorConfig.transforms);
+      if (errors.length > 0) {
+        throw new Error(
+          `Invalid transforms for generator ${generatorConfig.template}: ${errors.join('; ')}`
+        );
+      }
+      generatorRecords = applyTransforms(records, generatorConfig.transforms);
+    }
+
     // Generate file for each record
-    for (const record of records) {
+    for (const record of generatorRecords) {
       const result = await generateFile(
         record,
         generatorConfig,
@@ -0,0 +1,325 @@
+/**
+ * Project Scaffolding
+ * Create a starter configuration and embeds directory for `embedoc init`
+ */
+
+import { writeFile, mkdir, access, stat } from 'node:fs/promises';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { glob } from 'glob';
+import type { DatasourceConfig, EmbedifyConfig, TargetConfig } from '../types/index.js';
+
+/**
+ * Init options
+ */
+export interface InitOptions {
+  /** Project root directory (default: process.cwd()) */
+  cwd?: string;
+  /** Config file path, relative to cwd; JSON is written for .json paths (default: embedoc.config.yaml) */
+  configPath?: string;
+  /** Overwrite existing files (default: false) */
+  force?: boolean;
+  /** Detect docs folders and datasource files (default: true) */
+  detect?: boolean;
+  /** Dry run without writing files (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Scaffolded file
+ */
+export interface InitFile {
+  /** File path relative to cwd */
+  path: string;
+  /** Whether skipped (existing file without force) */
+  skipped: boolean;
+}
+
+/**
+ * Init result
+ */
+export interface InitResult {
+  /** Files written or skipped */
+  files: InitFile[];
+  /** Target patterns written to the config */
+  targets: TargetConfig[];
+  /** Detected datasources written to the config */
+  datasources: Record<string, DatasourceConfig>;
+}
+
+/**
+ * Candidate documentation directories
+ */
+const DOCS_DIRS = ['docs', 'doc', 'documentation'];
+
+/**
+ * Datasource file patterns and their types
+ */
+const DATASOURCE_PATTERNS: { pattern: string; type: DatasourceConfig['type'] }[] = [
+  { pattern: '**/*.{db,sqlite,sqlite3}', type: 'sqlite' },
+  { pattern: '**/*.csv', type: 'csv' },
+  { pattern: '**/*.{yaml,yml}', type: 'yaml' },
+];
+
+/**
+ * Paths never scanned for datasource files
+ */
+const IGNORE_PATTERNS = [
+  '**/node_modules/**',
+  '**/.git/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/embedoc.config.{yaml,yml}',
+  '**/pnpm-lock.yaml',
+  '**/pnpm-workspace.yaml',
+  '**/docker-compose*.{yaml,yml}',
+];
+
+/**
+ * Sample embed source
+ */
+const SAMPLE_EMBED = `/**
+ * hello Embed
+ * Minimal example embed
+ *
+ * Usage: <!--@embedoc:hello name="World"-->
+ */
+
+import { defineEmbed } from 'embedoc';
+
+export default defineEmbed({
+  description: 'Minimal example embed',
+
+  params: {
+    name: { type: 'string', default: 'World', description: 'Name to greet' },
+  },
+
+  async render(ctx) {
+    const name = ctx.params['name']!;
+    return { content: \`Hello, \${ctx.markdown.bold(name)}!\` };
+  },
+});
+`;
+
+/**
+ * Embed registry source
+ */
+const EMBEDS_INDEX = `/**
+ * Embed Registration
+ * Export all embeds here
+ */
+
+import hello from './hello.ts';
+
+export const embeds = {
+  hello,
+};
+`;
+
+/**
+ * Check if path exists
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert file name to datasource name (snake_case)
+ */
+function toDatasourceName(filePath: string): string {
+  const name = basename(filePath, extname(filePath))
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+  return /^[a-z_]/.test(name) ? name : `ds_${name}`;
+}
+
+/**
+ * Detect documentation targets
+ */
+async function detectTargets(cwd: string): Promise<TargetConfig[]> {
+  const targets: TargetConfig[] = [];
+
+  for (const dir of DOCS_DIRS) {
+    try {
+      if ((await stat(resolve(cwd, dir))).isDirectory()) {
+        targets.push({ pattern: `./${dir}/**/*.md`, comment_style: 'html' });
+      }
+    } catch {
+      // Directory does not exist
+    }
+  }
+
+  if (await pathExists(resolve(cwd, 'README.md'))) {
+    targets.push({ pattern: './README.md', comment_style: 'html' });
+  }
+
+  return targets;
+}
+
+/**
+ * Detect datasource files
+ */
+async function detectDatasources(cwd: string): Promise<Record<string, DatasourceConfig>> {
+  const datasources: Record<string, DatasourceConfig> = {};
+
+  for (const { pattern, type } of DATASOURCE_PATTERNS) {
+    const files = await glob(pattern, { cwd, ignore: IGNORE_PATTERNS, nodir: true, posix: true });
+
+    for (const file of files.sort()) {
+      let name = toDatasourceName(file);
+      for (let i = 2; name in datasources; i++) {
+        name = `${toDatasourceName(file)}_${i}`;
+      }
+      datasources[name] = { type, path: `./${file}` };
+    }
+  }
+
+  return datasources;
+}
+
+/**
+ * Quote a YAML string value
+ */
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Render starter configuration
+ */
+export function renderConfig(
+  targets: TargetConfig[],
+  datasources: Record<string, DatasourceConfig>
+): string {
+  const lines: string[] = [
+    '# embedoc configuration file',
+    'version: "1.0"',
+    '',
+    '# Target files',
+    'targets:',
+  ];
+
+  for (const target of targets) {
+    lines.push(`  - pattern: ${quote(target.pattern)}`);
+    lines.push(`    comment_style: ${target.comment_style}`);
+    lines.push('    exclude:');
+    lines.push('      - "**/node_modules/**"');
+  }
+
+  lines.push(
+    '',
+    '# Comment styles (built-in: html, block, line, hash, sql)',
+    '# Define custom styles here and reference them from targets',
+    'comment_styles:',
+    '  html:',
+    '    start: "<!--"',
+    '    end: "-->"',
+    ''
+  );
+
+  const entries = Object.entries(datasources);
+  if (entries.length > 0) {
+    lines.push('# Datasource definitions', 'datasources:');
+    for (const [name, ds] of entries) {
+      lines.push(`  ${name}:`);
+      lines.push(`    type: ${ds.type}`);
+      lines.push(`    path: ${quote(ds.path ?? '')}`);
+    }
+  } else {
+    lines.push(
+      '# Datasource definitions',
+      '# datasources:',
+      '#   metadata_db:',
+      '#     type: sqlite',
+      '#     path: "./data/metadata.db"'
+    );
+  }
+
+  lines.push(
+    '',
+    '# Embeds directory (TypeScript for marker embedding)',
+    'embeds_dir: "./embeds"',
+    '',
+    '# Templates directory (Handlebars for file generation)',
+    'templates_dir: "./templates"',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Render starter configuration as JSON (same settings as renderConfig, without comments)
+ */
+export function renderJsonConfig(
+  targets: TargetConfig[],
+  datasources: Record<string, DatasourceConfig>
+): string {
+  const config: EmbedifyConfig = {
+    version: '1.0',
+    targets: targets.map((target) => ({
+      pattern: target.pattern,
+      comment_style: target.comment_style,
+      exclude: ['**/node_modules/**'],
+    })),
+    comment_styles: { html: { start: '<!--', end: '-->' } },
+    ...(Object.keys(datasources).length > 0 && {
+      datasources: Object.fromEntries(
+        Object.entries(datasources).map(([name, ds]) => [name, { type: ds.type, path: ds.path ?? '' }])
+      ),
+    }),
+    embeds_dir: './embeds',
+    templates_dir: './templates',
+  };
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+/**
+ * Scaffold a new embedoc project
+ */
+export async function initProject(options: InitOptions = {}): Promise<InitResult> {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const configPath = options.configPath ?? 'embedoc.config.yaml';
+  const detect = options.detect ?? true;
+
+  let targets = detect ? await detectTargets(cwd) : [];
+  if (targets.length === 0) {
+    targets = [{ pattern: './docs/**/*.md', comment_style: 'html' }];
+  }
+
+  const datasources = detect ? await detectDatasources(cwd) : {};
+
+  const files: { path: string; content: string }[] = [
+    {
+      path: configPath,
+      content: configPath.endsWith('.json')
+        ? renderJsonConfig(targets, datasources)
+        : renderConfig(targets, datasources),
+    },
+    { path: 'embeds/index.ts', content: EMBEDS_INDEX },
+    { path: 'embeds/hello.ts', content: SAMPLE_EMBED },
+  ];
+
+  const results: InitFile[] = [];
+
+  for (const file of files) {
+    const absolutePath = resolve(cwd, file.path);
+    const skipped = !options.force && (await pathExists(absolutePath));
+
+    if (!skipped && !options.dryRun) {
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, file.content, { encoding: 'utf-8' });
+    }
+
+    results.push({ path: file.path, skipped });
+  }
+
+  return { files: results, targets, datasources };
+}
@@ -0,0 +1,171 @@
+/**
+ * Keep Regions
+ * Hand-written regions inside generated content, carried over on re-rendering
+ *
+ * Syntax (HTML comment style):
+ * <!--@embedoc:keep name="notes"-->
+ * Hand-written text
+ * <!--@embedoc:keep-end-->
+ */
+
+import type { CommentStyle, MarkerScanOptions } from '../types/index.js';
+import { findMarkdownCodeRanges, isInCodeRange } from './markdown-code.js';
+
+/**
+ * Keep region found in content
+ */
+export interface KeepRegion {
+  /** Region name (`name` attribute, empty if omitted) */
+  name: string;
+  /** Start position of the start marker */
+  startIndex: number;
+  /** End position of the end marker */
+  endIndex: number;
+  /** Start position of the region content */
+  contentStart: number;
+  /** End position of the region content */
+  contentEnd: number;
+  /** Region content (between the markers) */
+  content: string;
+}
+
+/**
+ * Result of carrying keep regions over into new content
+ */
+export interface KeepRegionMergeResult {
+  /** New content with existing region contents restored */
+  content: string;
+  /** Names of existing regions missing from the new content (their content is lost) */
+  dropped: string[];
+}
+
+/**
+ * Escape special characters for use in regex
+ */
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Read `name` attribute from keep marker attributes
+ */
+function parseRegionName(attrString: string): string {
+  const match = /name\s*=\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(\S+))/.exec(attrString);
+  const raw = match?.[1] ?? match?.[2] ?? match?.[3] ?? '';
+  return raw.replace(/\\(["'\\])/g, '$1');
+}
+
+/**
+ * Find keep regions in content
+ * Regions do not nest; a start marker without an end marker is ignored
+ */
+export function findKeepRegions(
+  content: string,
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
+): KeepRegion[] {
+  const { start, end } = commentStyle;
+  const startEscaped = escapeRegExp(start);
+  const endEscaped = end ? escapeRegExp(end) : '';
+
+  const startPattern = end
+    ? new RegExp(`${startEscaped}\\s*@embedoc:keep(?!-end)\\b\\s*([^]*?)\\s*${endEscaped}`, 'g')
+    : new RegExp(`${startEscaped}\\s*@embedoc:keep(?!-end)\\b[ \\t]*(.*)$`, 'gm');
+  const endPattern = end
+    ? new RegExp(`${startEscaped}\\s*@embedoc:keep-end\\s*${endEscaped}`, 'g')
+    : new RegExp(`${startEscaped}\\s*@embedoc:keep-end[ \\t]*$`, 'gm');
+
+  const codeRanges = options.skipCodeBlocks ? findMarkdownCodeRanges(content) : [];
+  const regions: KeepRegion[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = startPattern.exec(content)) !== null) {
+    if (isInCodeRange(codeRanges, match.index)) {
+      continue;
+    }
+
+    const contentStart = match.index + match[0].length;
+    endPattern.lastIndex = contentStart;
+    const endMatch = endPattern.exec(content);
+    if (!endMatch) {
+      break;
+    }
+
+    regions.push({
+      name: parseRegionName(match[1] ?? ''),
+      startIndex: match.index,
+      endIndex: endMatch.index + endMatch[0].length,
+      contentStart,
+      contentEnd: endMatch.index,
+      content: content.slice(contentStart, endMatch.index),
+    });
+    startPattern.lastIndex = endMatch.index + endMatch[0].length;
+  }
+
+  return regions;
+}
+
+/**
+ * Create keep region markers with default content
+ */
+export function createKeepRegion(
+  commentStyle: CommentStyle,
+  name: string,
+  defaultContent = ''
+): string {
+  const { start, end } = commentStyle;
+  const escapedName = name.replace(/["\\]/g, '\\$&');
+  const body = defaultContent ? `${defaultContent}\n` : '';
+  return `${start}@embedoc:keep name="${escapedName}"${end}\n${body}${start}@embedoc:keep-end${end}`;
+}
+
+/**
+ * Replace region contents in new content with the contents of
+ * same-named regions in existing content
+ */
+export function mergeKeepRegions(
+  newContent: string,
+  existingContent: string,
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
+): KeepRegionMergeResult {
+  const existing = new Map<string, KeepRegion>();
+  for (const region of findKeepRegions(existingContent, commentStyle, options)) {
+    if (!existing.has(region.name)) {
+      existing.set(region.name, region);
+    }
+  }
+
+  const regions = findKeepRegions(newContent, commentStyle, options);
+  const emitted = new Set(regions.map((r) => r.name));
+
+  // Replace from end to start (to preserve indices)
+  let content = newContent;
+  for (const region of [...regions].reverse()) {
+    const previous = existing.get(region.name);
+    if (previous) {
+      content =
+        content.slice(0, region.contentStart) + previous.content + content.slice(region.contentEnd);
+    }
+  }
+
+  return {
+    content,
+    dropped: Array.from(existing.keys()).filter((name) => !emitted.has(name)),
+  };
+}
+
+/**
+ * Remove region contents (so hand edits inside them do not count as changes)
+ */
+export function stripKeepRegions(
+  content: string,
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
+): string {
+  let result = content;
+  for (const region of findKeepRegions(content, commentStyle, options).reverse()) {
+    result = result.slice(0, region.contentStart) + result.slice(region.contentEnd);
+  }
+  return result;
+}
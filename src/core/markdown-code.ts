@@ -0,0 +1,148 @@
+/**
+ * Markdown Code Detection
+ * Find fenced code blocks, indented code blocks and inline code spans,
+ * so that example markers inside them are not treated as live markers
+ */
+
+/**
+ * Character range [start, end) in content
+ */
+export interface CodeRange {
+  start: number;
+  end: number;
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const FENCE_CLOSE = /^ {0,3}(`{3,}|~{3,})\s*$/;
+const INDENTED = /^(?: {4}|[ ]{0,3}\t)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d{1,9}[.)])(?:\s|$)/;
+
+/**
+ * Find code block ranges (fenced and indented), line by line
+ */
+function findBlockRanges(content: string): CodeRange[] {
+  const ranges: CodeRange[] = [];
+  const lines = content.split('\n');
+
+  let offset = 0;
+  let fence: { char: string; length: number; start: number } | null = null;
+  let indented: CodeRange | null = null;
+  let previousBlank = true;
+  let inList = false;
+
+  for (const line of lines) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const blank = line.trim() === '';
+
+    // Inside fenced code block: look for closing fence
+    if (fence) {
+      const close = FENCE_CLOSE.exec(line);
+      if (close?.[1]?.[0] === fence.char && close[1].length >= fence.length) {
+        ranges.push({ start: fence.start, end: lineEnd });
+        fence = null;
+        previousBlank = false;
+      }
+      continue;
+    }
+
+    // Indented code block: continues through blank lines
+    if (indented) {
+      if (blank) {
+        continue;
+      }
+      if (INDENTED.test(line)) {
+        indented.end = lineEnd;
+        continue;
+      }
+      ranges.push(indented);
+      indented = null;
+    }
+
+    const open = FENCE_OPEN.exec(line);
+    if (open?.[1] && !(open[1][0] === '`' && open[2]?.includes('`'))) {
+      fence = { char: open[1][0] ?? '`', length: open[1].length, start: lineStart };
+      continue;
+    }
+
+    // Indented lines after a blank line are code, unless they continue a list item
+    if (!blank && previousBlank && !inList && INDENTED.test(line)) {
+      indented = { start: lineStart, end: lineEnd };
+      continue;
+    }
+
+    if (!blank && !INDENTED.test(line)) {
+      inList = LIST_ITEM.test(line);
+    }
+    previousBlank = blank;
+  }
+
+  // Unclosed fence runs to the end of the document
+  if (fence) {
+    ranges.push({ start: fence.start, end: content.length });
+  }
+  if (indented) {
+    ranges.push(indented);
+  }
+
+  return ranges;
+}
+
+/**
+ * Check if index is inside any range
+ */
+export function isInCodeRange(ranges: CodeRange[], index: number): boolean {
+  return ranges.some((range) => index >= range.start && index < range.end);
+}
+
+/**
+ * Find inline code spans outside code blocks
+ * A span closes at the next backtick run of the same length within the paragraph
+ */
+function findInlineRanges(content: string, blockRanges: CodeRange[]): CodeRange[] {
+  const ranges: CodeRange[] = [];
+  const runs: CodeRange[] = [];
+  const runPattern = /`+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = runPattern.exec(content)) !== null) {
+    if (!isInCodeRange(blockRanges, match.index)) {
+      runs.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  for (let i = 0; i < runs.length; i++) {
+    const open = runs[i];
+    if (!open) continue;
+    const length = open.end - open.start;
+
+    for (let j = i + 1; j < runs.length; j++) {
+      const close = runs[j];
+      if (!close) continue;
+      // Code spans do not cross paragraphs or code blocks
+      const between = content.slice(open.end, close.start);
+      const crossesBlock = blockRanges.some((r) => r.start >= open.end && r.start < close.start);
+      if (crossesBlock || /\n[ \t]*\r?\n/.test(between)) {
+        break;
+      }
+      if (close.end - close.start === length) {
+        ranges.push({ start: open.start, end: close.end });
+        i = j;
+        break;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Find all markdown code ranges (fenced, indented and inline code)
+ */
+export function findMarkdownCodeRanges(content: string): CodeRange[] {
+  const blockRanges = findBlockRanges(content);
+  return [...blockRanges, ...findInlineRanges(content, blockRanges)].sort(
+    (a, b) => a.start - b.start
+  );
+}
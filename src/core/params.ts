@@ -0,0 +1,122 @@
+/**
+ * Parameter Validation
+ * Validate and coerce marker parameters against an embed's `params` schema
+ */
+
+import type { EmbedParamSchema, EmbedParamType } from '../types/index.js';
+
+/**
+ * Parameter validation result
+ */
+export interface ParamValidationResult {
+  /** Parameters with coerced values and defaults applied */
+  values: Record<string, unknown>;
+  /** Validation error messages */
+  errors: string[];
+}
+
+/**
+ * Convert typed parameter value to its string form (`ctx.params`)
+ */
+export function stringifyParam(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Describe a value for error messages
+ */
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Parse JSON text, returning undefined when invalid
+ */
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Coerce a value to the given type (undefined if not convertible)
+ */
+function coerceValue(value: unknown, type: EmbedParamType): unknown {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? String(value)
+        : undefined;
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || !Number.isFinite(num)) return undefined;
+      return type === 'integer' && !Number.isInteger(num) ? undefined : num;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return undefined;
+    case 'array': {
+      if (Array.isArray(value)) return value;
+      if (typeof value !== 'string') return undefined;
+      // JSON array text, or comma-separated list
+      const parsed = tryParseJson(value);
+      return Array.isArray(parsed) ? parsed : value.split(',').map((item) => item.trim());
+    }
+    case 'object': {
+      const parsed = typeof value === 'string' ? tryParseJson(value) : value;
+      return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? parsed
+        : undefined;
+    }
+  }
+}
+
+/**
+ * Validate parameters against a schema
+ * Empty values count as not set; unknown parameters are passed through
+ */
+export function validateParams(
+  schema: Record<string, EmbedParamSchema>,
+  params: Record<string, unknown>
+): ParamValidationResult {
+  const values: Record<string, unknown> = { ...params };
+  const errors: string[] = [];
+
+  for (const [name, def] of Object.entries(schema)) {
+    const raw = params[name];
+
+    if (raw === undefined || raw === '') {
+      if (def.default !== undefined) {
+        values[name] = def.default;
+      } else if (def.required) {
+        errors.push(`Missing required parameter "${name}"`);
+      } else {
+        delete values[name];
+      }
+      continue;
+    }
+
+    const type = def.type ?? 'string';
+    const value = coerceValue(raw, type);
+    if (value === undefined) {
+      errors.push(`Parameter "${name}" must be ${type}, got ${describeValue(raw)}`);
+      continue;
+    }
+
+    if (def.enum && !def.enum.includes(value)) {
+      errors.push(
+        `Parameter "${name}" must be one of ${def.enum.map(describeValue).join(', ')}, got ${describeValue(value)}`
+      );
+      continue;
+    }
+
+    values[name] = value;
+  }
+
+  return { values, errors };
+}
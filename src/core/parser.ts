@@ -3,8 +3,19 @@
  * Detects blocks enclosed by comment-style markers
  */
 
-import type { CommentStyle, ParsedMarker, ParsedFrontmatter } from '../types/index.js';
+import type {
+  CommentStyle,
+  ParsedMarker,
+  ParsedFrontmatter,
+  MarkerDiagnostic,
+  MarkerParseResult,
+  MarkerScanOptions,
+  TargetConfig,
+} from '../types/index.js';
 import type { ParsedInlineData } from './inline-datasource.js';
+import { findMarkdownCodeRanges, isInCodeRange } from './markdown-code.js';
+import { findKeepRegions } from './keep-regions.js';
+import { stringifyParam } from './params.js';
 import matter from 'gray-matter';
 
 /**
@@ -19,24 +30,161 @@ export const DEFAULT_COMMENT_STYLES: Record<string, CommentStyle> = {
 };
 
 /**
- * Parse attribute string into object
- * Example: 'id="users" schema="public"' -> { id: 'users', schema: 'public' }
+ * Attribute tokenization result
  */
-export function parseAttributes(attrString: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  // Match key="value" or key='value' patterns
-  const attrRegex = /(\w+)=["']([^"']*)["']/g;
-  let match: RegExpExecArray | null;
+interface AttributeTokens {
+  /** String values (backward compatible) */
+  attributes: Record<string, string>;
+  /** Typed values (strings, JSON literals and `true` for bare flags) */
+  typed: Record<string, unknown>;
+  /** Text that could not be parsed as attributes (index relative to input) */
+  errors: { index: number; text: string }[];
+}
 
-  while ((match = attrRegex.exec(attrString)) !== null) {
-    const key = match[1];
-    const value = match[2];
-    if (key && value !== undefined) {
-      result[key] = value;
+const ATTRIBUTE_KEY = /[A-Za-z_][\w-]*/y;
+
+/**
+ * Find end of a quoted value (index after the closing quote, or -1)
+ */
+function scanQuoted(input: string, from: number): number {
+  const quote = input[from];
+  for (let i = from + 1; i < input.length; i++) {
+    if (input[i] === '\\') {
+      i++;
+    } else if (input[i] === quote) {
+      return i + 1;
     }
   }
+  return -1;
+}
 
-  return result;
+/**
+ * Unescape a quoted value (\" \' and \; other backslashes are kept)
+ */
+function unescapeQuoted(raw: string): string {
+  return raw.slice(1, -1).replace(/\\(["'\\])/g, '$1');
+}
+
+/**
+ * Find end of an unquoted value: whitespace outside brackets and JSON strings
+ */
+function scanLiteral(input: string, from: number): number {
+  let depth = 0;
+  let i = from;
+  while (i < input.length) {
+    const char = input[i] ?? '';
+    if (char === '"') {
+      const end = scanQuoted(input, i);
+      if (end === -1) return input.length;
+      i = end;
+      continue;
+    }
+    if (char === '[' || char === '{') depth++;
+    if (char === ']' || char === '}') depth--;
+    if (depth <= 0 && /\s/.test(char)) break;
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Tokenize attribute string, collecting unparsable text
+ *
+ * Grammar:
+ * - `key="value"` / `key='value'` (with `\"`, `\'` and `\\` escapes)
+ * - `key=<JSON literal>` (number, boolean, null, array or object)
+ * - `key` (bare flag, same as `key=true`)
+ * Keys may contain dashes.
+ */
+function tokenizeAttributes(attrString: string): AttributeTokens {
+  const attributes: Record<string, string> = {};
+  const typed: Record<string, unknown> = {};
+  const errors: AttributeTokens['errors'] = [];
+  let i = 0;
+
+  const setValue = (key: string, value: unknown) => {
+    typed[key] = value;
+    attributes[key] = stringifyParam(value);
+  };
+
+  // Skip to the next whitespace and report the text
+  const collectError = (from: number) => {
+    let to = from;
+    while (to < attrString.length && !/\s/.test(attrString[to] ?? '')) to++;
+    errors.push({ index: from, text: attrString.slice(from, to) });
+    i = to;
+  };
+
+  while (i < attrString.length) {
+    if (/\s/.test(attrString[i] ?? '')) {
+      i++;
+      continue;
+    }
+
+    const keyStart = i;
+    ATTRIBUTE_KEY.lastIndex = i;
+    const keyMatch = ATTRIBUTE_KEY.exec(attrString);
+    if (!keyMatch) {
+      collectError(keyStart);
+      continue;
+    }
+    const key = keyMatch[0];
+    i += key.length;
+
+    // Bare flag
+    const next = attrString[i];
+    if (next === undefined || /\s/.test(next)) {
+      setValue(key, true);
+      continue;
+    }
+    if (next !== '=') {
+      collectError(keyStart);
+      continue;
+    }
+    i++;
+
+    // Quoted string
+    const quote = attrString[i];
+    if (quote === '"' || quote === "'") {
+      const end = scanQuoted(attrString, i);
+      if (end === -1) {
+        errors.push({ index: keyStart, text: attrString.slice(keyStart).trimEnd() });
+        break;
+      }
+      setValue(key, unescapeQuoted(attrString.slice(i, end)));
+      i = end;
+      continue;
+    }
+
+    // JSON literal
+    const end = scanLiteral(attrString, i);
+    try {
+      setValue(key, JSON.parse(attrString.slice(i, end)) as unknown);
+      i = end;
+    } catch {
+      collectError(keyStart);
+    }
+  }
+
+  return { attributes, typed, errors };
+}
+
+/**
+ * Parse attribute string into object
+ * Example: 'id="users" schema="public"' -> { id: 'users', schema: 'public' }
+ * Typed values are converted to strings (flags become "true", JSON literals
+ * become JSON text)
+ */
+export function parseAttributes(attrString: string): Record<string, string> {
+  return tokenizeAttributes(attrString).attributes;
+}
+
+/**
+ * Parse attribute string into typed values
+ * Example: 'id="users" limit=10 inline' -> { id: 'users', limit: 10, inline: true }
+ */
+export function parseTypedAttributes(attrString: string): Record<string, unknown> {
+  return tokenizeAttributes(attrString).typed;
 }
 
 /**
@@ -98,12 +246,67 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 
 /**
  * Parse all markers in a file
+ * Returns top-level markers; nested markers are in `children`
  */
 export function parseMarkers(
   content: string,
-  commentStyle: CommentStyle
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
 ): ParsedMarker[] {
+  return parseMarkersWithDiagnostics(content, commentStyle, options).markers;
+}
+
+/**
+ * Get marker scanning options for a target file
+ * Markdown code is skipped by default for markdown files (.md, .markdown)
+ */
+export function getMarkerScanOptions(
+  targetConfig: TargetConfig,
+  filePath: string
+): MarkerScanOptions {
+  return {
+    skipCodeBlocks: targetConfig.skip_code_blocks ?? /\.(md|markdown)$/i.test(filePath),
+  };
+}
+
+/**
+ * Flatten nested markers into a single list (document order)
+ */
+export function flattenMarkers(markers: ParsedMarker[]): ParsedMarker[] {
+  const result: ParsedMarker[] = [];
+  for (const marker of markers) {
+    result.push(marker, ...flattenMarkers(marker.children));
+  }
+  return result;
+}
+
+/**
+ * Start marker waiting for its end marker
+ */
+interface OpenMarker {
+  match: RegExpExecArray;
+  templateName: string;
+  params: Record<string, string>;
+  typedParams: Record<string, unknown>;
+  line: number;
+  column: number;
+  children: ParsedMarker[];
+}
+
+/**
+ * Parse all markers in a file, reporting unterminated start markers,
+ * orphaned end markers, mismatched nesting and malformed attributes
+ *
+ * Start and end markers are paired with a stack, so a marker may contain
+ * other markers. Each end marker closes the innermost open start marker.
+ */
+export function parseMarkersWithDiagnostics(
+  content: string,
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
+): MarkerParseResult {
   const markers: ParsedMarker[] = [];
+  const diagnostics: MarkerDiagnostic[] = [];
   const { start, end } = commentStyle;
 
   const startEscaped = escapeRegExp(start);
@@ -112,63 +315,150 @@ export function parseMarkers(
   // Start marker pattern
   // {start}@embedoc:{template_name} {attributes}{end}
   // For line comment style (empty end), match until newline
-  // Note: "end" is reserved for end marker, so exclude it (using negative lookahead)
+  // Note: "end" and "keep" are reserved (end marker, keep regions), so exclude them (using negative lookahead)
   let startPattern: RegExp;
   if (end) {
     // Block comment style
     startPattern = new RegExp(
-      `${startEscaped}\\s*@embedoc:(?!end\\b)(\\w+)\\s*([^]*?)\\s*${endEscaped}`,
-      'g'
+      `${startEscaped}\\s*@embedoc:(?!(?:end|keep)\\b)(\\w+)\\s*([^]*?)\\s*${endEscaped}`,
+      'gd'
     );
   } else {
     // Line comment style
     startPattern = new RegExp(
-      `${startEscaped}\\s*@embedoc:(?!end\\b)(\\w+)\\s*(.*)$`,
-      'gm'
+      `${startEscaped}\\s*@embedoc:(?!(?:end|keep)\\b)(\\w+)[ \\t]*(.*)$`,
+      'gmd'
     );
   }
 
   // End marker pattern
+  // {start}@embedoc:end {attributes}{end} (attributes hold the generated content hash)
   let endPattern: RegExp;
   if (end) {
-    endPattern = new RegExp(`${startEscaped}\\s*@embedoc:end\\s*${endEscaped}`);
+    endPattern = new RegExp(`${startEscaped}\\s*@embedoc:end\\b\\s*([^]*?)\\s*${endEscaped}`, 'g');
   } else {
-    endPattern = new RegExp(`${startEscaped}\\s*@embedoc:end\\s*$`, 'm');
+    endPattern = new RegExp(`${startEscaped}\\s*@embedoc:end\\b[ \\t]*(.*?)[ \\t]*$`, 'gm');
   }
 
+  // Collect start and end markers in document order
+  // (outside keep regions, and outside code if requested)
+  const skipRanges = [
+    ...(options.skipCodeBlocks ? findMarkdownCodeRanges(content) : []),
+    ...findKeepRegions(content, commentStyle, options).map((r) => ({
+      start: r.startIndex,
+      end: r.endIndex,
+    })),
+  ];
+  const tokens: { type: 'start' | 'end'; match: RegExpExecArray }[] = [];
   let match: RegExpExecArray | null;
-
   while ((match = startPattern.exec(content)) !== null) {
-    const startIndex = match.index;
-    const startMarkerLine = match[0];
-    const templateName = match[1];
-    const attrString = match[2]?.trim() ?? '';
-
-    // Search for end marker from after start marker
-    const afterStart = startIndex + startMarkerLine.length;
-    const remainingContent = content.slice(afterStart);
-    const endMatch = endPattern.exec(remainingContent);
-
-    if (endMatch) {
-      const endMarkerLine = endMatch[0];
-      const endIndex = afterStart + endMatch.index + endMarkerLine.length;
-      const existingContent = remainingContent.slice(0, endMatch.index);
-
-      if (templateName) {
-        markers.push({
-          startIndex,
-          endIndex,
-          templateName,
-          params: parseAttributes(attrString),
-          existingContent,
-          startMarkerLine,
-          endMarkerLine,
+    if (!isInCodeRange(skipRanges, match.index)) {
+      tokens.push({ type: 'start', match });
+    }
+  }
+  while ((match = endPattern.exec(content)) !== null) {
+    if (!isInCodeRange(skipRanges, match.index)) {
+      tokens.push({ type: 'end', match });
+    }
+  }
+  tokens.sort((a, b) => a.match.index - b.match.index);
+
+  const stack: OpenMarker[] = [];
+  const siblingsOf = (): ParsedMarker[] => stack[stack.length - 1]?.children ?? markers;
+
+  for (const token of tokens) {
+    const tokenMatch = token.match;
+
+    if (token.type === 'start') {
+      const templateName = tokenMatch[1] ?? '';
+      const attrString = tokenMatch[2]?.trim() ?? '';
+
+      // Report attribute text that cannot be parsed
+      const { attributes, typed, errors } = tokenizeAttributes(attrString);
+      const rawAttr = tokenMatch[2] ?? '';
+      const attrIndex =
+        (tokenMatch.indices?.[2]?.[0] ?? tokenMatch.index) +
+        rawAttr.length -
+        rawAttr.trimStart().length;
+      for (const error of errors) {
+        diagnostics.push({
+          kind: 'malformed_attribute',
+          message: `Malformed attribute "${error.text}" in marker "${templateName}"`,
+          ...getLineAndColumn(content, attrIndex + error.index),
         });
       }
+
+      stack.push({
+        match: tokenMatch,
+        templateName,
+        params: attributes,
+        typedParams: typed,
+        ...getLineAndColumn(content, tokenMatch.index),
+        children: [],
+      });
+      continue;
+    }
+
+    const open = stack.pop();
+    if (!open) {
+      diagnostics.push({
+        kind: 'orphan_end',
+        message: '@embedoc:end has no matching start marker',
+        ...getLineAndColumn(content, tokenMatch.index),
+      });
+      continue;
+    }
+
+    const startMarkerLine = open.match[0];
+    const endMarkerLine = tokenMatch[0];
+    const afterStart = open.match.index + startMarkerLine.length;
+
+    siblingsOf().push({
+      startIndex: open.match.index,
+      endIndex: tokenMatch.index + endMarkerLine.length,
+      templateName: open.templateName,
+      params: open.params,
+      typedParams: open.typedParams,
+      existingContent: content.slice(afterStart, tokenMatch.index),
+      startMarkerLine,
+      endMarkerLine,
+      line: open.line,
+      column: open.column,
+      children: open.children,
+      generatedHash: parseAttributes(tokenMatch[1] ?? '')['hash'],
+    });
+  }
+
+  // Report start markers left open (innermost first)
+  // Their nested markers are kept and move up to the enclosing level
+  let open: OpenMarker | undefined;
+  while ((open = stack.pop()) !== undefined) {
+    const lastChild = open.children[open.children.length - 1];
+    if (lastChild) {
+      // An inner marker closed with the end marker meant for this one
+      diagnostics.push({
+        kind: 'mismatched_nesting',
+        message:
+          `Marker "${open.templateName}" has no matching @embedoc:end ` +
+          `(nested marker "${lastChild.templateName}" at line ${lastChild.line} ` +
+          `may be missing its own @embedoc:end)`,
+        line: open.line,
+        column: open.column,
+      });
+    } else {
+      diagnostics.push({
+        kind: 'unterminated_start',
+        message: `Marker "${open.templateName}" has no matching @embedoc:end`,
+        line: open.line,
+        column: open.column,
+      });
     }
+    siblingsOf().push(...open.children);
   }
 
-  return markers;
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { markers, diagnostics };
 }
 
 /**
@@ -229,12 +519,22 @@ function getLineNumber(content: string, index: number): number {
   return content.slice(0, index).split('\n').length;
 }
 
+/**
+ * Calculate line number and column from content index (both 1-indexed)
+ */
+function getLineAndColumn(content: string, index: number): { line: number; column: number } {
+  const before = content.slice(0, index);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: index - lineStart + 1 };
+}
+
 /**
  * Parse inline data markers (@embedoc-data)
  */
 export function parseInlineDataMarkers(
   content: string,
-  commentStyle: CommentStyle
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions = {}
 ): ParsedInlineData[] {
   const results: ParsedInlineData[] = [];
   const { start, end } = commentStyle;
@@ -254,22 +554,27 @@ export function parseInlineDataMarkers(
       `${startEscaped}\\s*@embedoc-data:(?!end\\s*${endEscaped})([\\w.]+)(?:\\s+([^\\n]*?))?\\s*${endEscaped}`,
       'g'
     );
-    endPattern = new RegExp(`${startEscaped}\\s*@embedoc-data:end\\s*${endEscaped}`);
+    endPattern = new RegExp(`${startEscaped}\\s*@embedoc-data:end\\s*${endEscaped}`, 'g');
   } else {
     // Line comment style - exclude 'end' as a name
     startPattern = new RegExp(
       `${startEscaped}\\s*@embedoc-data:(?!end\\s*$)([\\w.]+)(?:\\s+(.*))?$`,
       'gm'
     );
-    endPattern = new RegExp(`${startEscaped}\\s*@embedoc-data:end\\s*$`, 'm');
+    endPattern = new RegExp(`${startEscaped}\\s*@embedoc-data:end\\s*$`, 'gm');
   }
 
+  const codeRanges = options.skipCodeBlocks ? findMarkdownCodeRanges(content) : [];
   let match: RegExpExecArray | null;
 
   while ((match = startPattern.exec(content)) !== null) {
     const startIndex = match.index;
     const startMarkerLine = match[0];
     const name = match[1];
+
+    if (isInCodeRange(codeRanges, startIndex)) {
+      continue;
+    }
     const attrString = match[2]?.trim() ?? '';
 
     // Skip if name is 'end' (shouldn't happen with negative lookahead, but be safe)
@@ -281,18 +586,18 @@ export function parseInlineDataMarkers(
     const attrs = parseAttributes(attrString);
     const format = (attrs['format'] ?? 'yaml') as ParsedInlineData['format'];
 
-    // Find end marker - search from after start marker
+    // Find end marker - search from after start marker, skipping code
     const afterStart = startIndex + startMarkerLine.length;
-    const remainingContent = content.slice(afterStart);
-    
-    // Reset lastIndex for endPattern search
-    endPattern.lastIndex = 0;
-    const endMatch = endPattern.exec(remainingContent);
+    endPattern.lastIndex = afterStart;
+    let endMatch: RegExpExecArray | null;
+    while ((endMatch = endPattern.exec(content)) !== null) {
+      if (!isInCodeRange(codeRanges, endMatch.index)) break;
+    }
 
     if (endMatch) {
-      const dataContent = remainingContent.slice(0, endMatch.index);
+      const dataContent = content.slice(afterStart, endMatch.index);
       const startLine = getLineNumber(content, startIndex);
-      const endLine = getLineNumber(content, afterStart + endMatch.index + endMatch[0].length);
+      const endLine = getLineNumber(content, endMatch.index + endMatch[0].length);
 
       results.push({
         name,
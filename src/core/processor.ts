@@ -3,6 +3,7 @@
  * Replace marker-enclosed blocks with embed execution results
  */
 
+import { createHash } from 'node:crypto';
 import { readFile, writeFile } from 'node:fs/promises';
 import { glob } from 'glob';
 import type {
@@ -13,15 +14,27 @@ import type {
   ProcessResult,
   BuildResult,
   TargetConfig,
+  MarkerResult,
+  MarkerDiagnostic,
+  ParsedMarker,
+  ManualEditPolicy,
+  CommentStyle,
+  MarkerScanOptions,
 } from '../types/index.js';
 import {
-  parseMarkers,
+  parseMarkersWithDiagnostics,
   parseFrontmatter,
   getCommentStyle,
+  getMarkerScanOptions,
   parseInlineDataMarkers,
 } from './parser.js';
 import { createMarkdownHelper } from '../helpers/markdown.js';
 import { buildInlineDatasources, resolveDotPath, InlineDatasource } from './inline-datasource.js';
+import { validateParams, stringifyParam } from './params.js';
+import { createKeepRegion, mergeKeepRegions, stripKeepRegions } from './keep-regions.js';
+import { createEmbedFileAccess } from './embed-files.js';
+import type { BuildCache } from './cache.js';
+import type { DependencyStore } from './dependency-store.js';
 
 /**
  * Resolve variables with support for inline datasources
@@ -73,6 +86,87 @@ function resolveVariablesWithInline(
   return result;
 }
 
+/**
+ * Maximum depth of nested markers (including markers emitted by embeds)
+ */
+const MAX_NESTING_DEPTH = 10;
+
+/**
+ * Count line breaks in text
+ */
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * Format diagnostic as "file:line:column message"
+ */
+export function formatDiagnostic(diagnostic: MarkerDiagnostic): string {
+  const location = `${diagnostic.file ?? ''}:${diagnostic.line}:${diagnostic.column}`;
+  return `${location} ${diagnostic.message}`;
+}
+
+/**
+ * Valid `manual_edits` policies
+ */
+const MANUAL_EDIT_POLICIES: readonly ManualEditPolicy[] = ['overwrite', 'warn', 'keep', 'refuse'];
+
+/**
+ * Hash generated content for the end marker
+ * (line endings are normalized, keep region contents are excluded)
+ */
+function hashGeneratedContent(
+  content: string,
+  commentStyle: CommentStyle,
+  options: MarkerScanOptions
+): string {
+  const normalized = stripKeepRegions(content, commentStyle, options).replace(/\r\n/g, '\n');
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 12);
+}
+
+/**
+ * Set the `hash` attribute of an end marker
+ */
+function withGeneratedHash(endMarkerLine: string, hash: string): string {
+  return endMarkerLine.replace(/@embedoc:end(?:\s+hash="[^"]*")?/, `@embedoc:end hash="${hash}"`);
+}
+
+/**
+ * Wrap datasources so that accesses to configured (not inline) datasources are recorded
+ */
+function trackDatasourceAccess(
+  datasources: Record<string, Datasource>,
+  configured: Record<string, Datasource>,
+  accessed: Set<string>
+): Record<string, Datasource> {
+  return new Proxy(datasources, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (
+        typeof property === 'string' &&
+        Object.hasOwn(configured, property) &&
+        value === configured[property]
+      ) {
+        accessed.add(property);
+      }
+      return value;
+    },
+  });
+}
+
+/**
+ * Throw if any diagnostic has error severity
+ */
+function assertNoErrorDiagnostics(diagnostics: MarkerDiagnostic[]): void {
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(
+      `${errors.length} marker error(s):\n` +
+        errors.map((d) => `  ${formatDiagnostic(d)}`).join('\n')
+    );
+  }
+}
+
 /**
  * Process a single file
  */
@@ -89,7 +183,10 @@ export async function processFile(
     filePath,
     success: true,
     markersUpdated: 0,
+    markers: [],
+    diagnostics: [],
     changed: false,
+    dependencies: { datasources: [], files: [] },
   };
 
   try {
@@ -98,6 +195,7 @@ export async function processFile(
       targetConfig.comment_style,
       config.comment_styles
     );
+    const scanOptions = getMarkerScanOptions(targetConfig, filePath);
 
     // Parse frontmatter
     const { data: frontmatter, content: bodyContent, raw: frontmatterRaw } =
@@ -107,7 +205,7 @@ export async function processFile(
     const frontmatterLineOffset = frontmatterRaw ? frontmatterRaw.split('\n').length - 1 : 0;
 
     // Parse inline data markers
-    const inlineDataMarkers = parseInlineDataMarkers(bodyContent, commentStyle);
+    const inlineDataMarkers = parseInlineDataMarkers(bodyContent, commentStyle, scanOptions);
     
     // Adjust line numbers for frontmatter offset
     for (const marker of inlineDataMarkers) {
@@ -143,7 +241,26 @@ export async function processFile(
     }
 
     // Parse markers
-    const markers = parseMarkers(bodyContent, commentStyle);
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(
+      bodyContent,
+      commentStyle,
+      scanOptions
+    );
+    const severity = config.diagnostics?.level === 'error' ? 'error' : 'warning';
+
+    const addDiagnostic = (diagnostic: MarkerDiagnostic) => {
+      result.diagnostics.push({
+        ...diagnostic,
+        file: filePath,
+        // Mismatched nesting would rewrite the wrong block, so it is always an error
+        severity: diagnostic.kind === 'mismatched_nesting' ? 'error' : diagnostic.severity ?? severity,
+      });
+    };
+
+    for (const diagnostic of diagnostics) {
+      addDiagnostic({ ...diagnostic, line: diagnostic.line + frontmatterLineOffset });
+    }
+    assertNoErrorDiagnostics(result.diagnostics);
 
     if (markers.length === 0 && inlineDataMarkers.length === 0) {
       return result;
@@ -152,63 +269,256 @@ export async function processFile(
     // Create helpers
     const markdownHelper = createMarkdownHelper();
 
-    // Replace from end to start (to preserve indices)
-    let processedContent = bodyContent;
-    const sortedMarkers = [...markers].sort((a, b) => b.startIndex - a.startIndex);
+    // Marker results with columns, sorted into document order afterwards
+    const markerResults: { column: number; result: MarkerResult }[] = [];
+
+    /**
+     * Render markers in content and return the new content
+     * Outer markers render first; markers in the rendered output (or in the
+     * existing content when the embed keeps it) are then rendered recursively.
+     * `firstLine` is the document line of the first line of `content`.
+     */
+    const renderMarkers = async (
+      content: string,
+      contentMarkers: ParsedMarker[],
+      firstLine: number,
+      depth: number
+    ): Promise<string> => {
+      // Replace from end to start (to preserve indices)
+      let processedContent = content;
+      const sortedMarkers = [...contentMarkers].sort((a, b) => b.startIndex - a.startIndex);
+
+      for (const marker of sortedMarkers) {
+        const line = firstLine + marker.line - 1;
+
+        if (depth > MAX_NESTING_DEPTH) {
+          throw new Error(
+            `Marker "${marker.templateName}" at line ${line} exceeds maximum nesting depth (${MAX_NESTING_DEPTH})`
+          );
+        }
 
-    for (const marker of sortedMarkers) {
-      // Get embed
-      const embed = embeds[marker.templateName];
+        // Get embed
+        const embed = embeds[marker.templateName];
+
+        if (!embed) {
+          addDiagnostic({
+            kind: 'unknown_embed',
+            message: `Unknown embed "${marker.templateName}"`,
+            line,
+            column: marker.column,
+          });
+          continue;
+        }
 
-      if (!embed) {
-        console.warn(`Warning: Unknown embed "${marker.templateName}" in ${filePath}`);
-        continue;
-      }
+        // Detect manual edits since the content was generated (hash in the end marker)
+        const policy =
+          marker.params['manual_edits'] ??
+          targetConfig.manual_edits ??
+          config.manual_edits ??
+          'overwrite';
+        if (!MANUAL_EDIT_POLICIES.includes(policy as ManualEditPolicy)) {
+          addDiagnostic({
+            kind: 'invalid_param',
+            message:
+              `Parameter "manual_edits" must be one of ${MANUAL_EDIT_POLICIES.map((p) => `"${p}"`).join(', ')}, ` +
+              `got "${policy}" in marker "${marker.templateName}"`,
+            line,
+            column: marker.column,
+          });
+          continue;
+        }
+        const edited =
+          marker.generatedHash !== undefined &&
+          hashGeneratedContent(marker.existingContent, commentStyle, scanOptions) !==
+            marker.generatedHash;
+
+        if (edited && policy !== 'overwrite') {
+          const action = {
+            warn: 'overwriting it',
+            keep: 'keeping the edit',
+            refuse: 'refusing to overwrite it',
+          }[policy as Exclude<ManualEditPolicy, 'overwrite'>];
+          addDiagnostic({
+            kind: 'manual_edit',
+            message: `Content of marker "${marker.templateName}" was edited manually; ${action} (manual_edits: ${policy})`,
+            line,
+            column: marker.column,
+            ...(policy === 'refuse' ? { severity: 'error' as const } : {}),
+          });
+          if (policy !== 'warn') {
+            continue;
+          }
+        }
 
-      // Resolve parameter variables (including inline datasources)
-      const resolvedParams = resolveVariablesWithInline(
-        marker.params,
-        frontmatter,
-        inlineDatasources
-      );
+        // Resolve parameter variables (including inline datasources)
+        const resolvedParams = resolveVariablesWithInline(
+          marker.params,
+          frontmatter,
+          inlineDatasources
+        );
 
-      // Create context (include existingContent for error recovery)
-      const ctx: EmbedContext = {
-        params: resolvedParams,
-        frontmatter,
-        datasources: mergedDatasources,
-        markdown: markdownHelper,
-        filePath,
-        existingContent: marker.existingContent,
-      };
-
-      // Execute embed
-      const embedResult = await embed.render(ctx);
-
-      // If content is null or undefined, keep existing content (skip update)
-      if (embedResult.content === null || embedResult.content === undefined) {
-        continue;
+        // Typed values: only string values contain variable references
+        let typedParams: Record<string, unknown> = { ...marker.typedParams };
+        for (const [key, value] of Object.entries(typedParams)) {
+          if (typeof value === 'string') {
+            typedParams[key] = resolvedParams[key];
+          }
+        }
+
+        // Validate and coerce parameters against the embed's schema
+        let params = resolvedParams;
+        if (embed.params) {
+          const validation = validateParams(embed.params, typedParams);
+          if (validation.errors.length > 0) {
+            for (const error of validation.errors) {
+              addDiagnostic({
+                kind: 'invalid_param',
+                message: `${error} in marker "${marker.templateName}"`,
+                line,
+                column: marker.column,
+              });
+            }
+            continue;
+          }
+          typedParams = validation.values;
+          params = Object.fromEntries(
+            Object.entries(typedParams).map(([key, value]) => [key, stringifyParam(value)])
+          );
+        }
+
+        // Create context (include existingContent for error recovery)
+        // Datasources and files the embed accesses are recorded as dependencies of the document
+        const accessedDatasources = new Set<string>();
+        const accessedFiles = new Set<string>();
+        const ctx: EmbedContext = {
+          params,
+          typedParams,
+          frontmatter,
+          datasources: trackDatasourceAccess(mergedDatasources, datasources, accessedDatasources),
+          markdown: markdownHelper,
+          filePath,
+          existingContent: marker.existingContent,
+          keepRegion: (name, defaultContent) =>
+            createKeepRegion(commentStyle, name, defaultContent),
+          ...createEmbedFileAccess(filePath, accessedFiles),
+        };
+
+        // Execute embed
+        const embedResult = await embed.render(ctx);
+
+        const markerResult: MarkerResult = {
+          templateName: marker.templateName,
+          line,
+          changed: false,
+          dependencies: {
+            datasources: [...accessedDatasources].sort(),
+            files: [...accessedFiles].sort(),
+          },
+        };
+        markerResults.push({ column: marker.column, result: markerResult });
+
+        const innerFirstLine = line + countNewlines(marker.startMarkerLine);
+        let innerContent: string;
+        // Record the hash of the new content when edits are tracked
+        let recordHash = policy !== 'overwrite' || marker.generatedHash !== undefined;
+
+        // If content is null or undefined, keep existing content (skip update)
+        // Nested markers inside the existing content are still rendered
+        if (embedResult.content === null || embedResult.content === undefined) {
+          if (marker.children.length === 0) {
+            continue;
+          }
+          // Existing content is kept as is, so an edit must not be recorded as generated
+          recordHash &&= !edited;
+          const nested = parseMarkersWithDiagnostics(
+            marker.existingContent,
+            commentStyle,
+            scanOptions
+          );
+          innerContent = await renderMarkers(
+            marker.existingContent,
+            nested.markers,
+            innerFirstLine,
+            depth + 1
+          );
+        } else {
+          // Check for inline mode (no newlines around content)
+          const isInline = marker.params['inline'] === 'true';
+          const generated = isInline ? embedResult.content : '\n' + embedResult.content + '\n';
+
+          // Carry hand-written keep regions over from the existing content
+          const { content: rendered, dropped } = mergeKeepRegions(
+            generated,
+            marker.existingContent,
+            commentStyle,
+            scanOptions
+          );
+          for (const name of dropped) {
+            addDiagnostic({
+              kind: 'dropped_keep_region',
+              message: `Keep region "${name}" is no longer emitted by marker "${marker.templateName}"; its content was dropped`,
+              line,
+              column: marker.column,
+            });
+          }
+
+          // Render markers emitted by the embed
+          const nested = parseMarkersWithDiagnostics(rendered, commentStyle, scanOptions);
+          for (const diagnostic of nested.diagnostics) {
+            addDiagnostic({ ...diagnostic, line: innerFirstLine + diagnostic.line - 1 });
+          }
+          innerContent =
+            nested.markers.length > 0
+              ? await renderMarkers(rendered, nested.markers, innerFirstLine, depth + 1)
+              : rendered;
+
+          result.markersUpdated++;
+        }
+
+        // Replace content
+        const endMarkerLine = recordHash
+          ? withGeneratedHash(
+              marker.endMarkerLine,
+              hashGeneratedContent(innerContent, commentStyle, scanOptions)
+            )
+          : marker.endMarkerLine;
+        const newContent = marker.startMarkerLine + innerContent + endMarkerLine;
+
+        const originalBlock = processedContent.slice(marker.startIndex, marker.endIndex);
+        if (newContent !== originalBlock) {
+          markerResult.changed = true;
+          markerResult.originalContent = originalBlock;
+          markerResult.newContent = newContent;
+        }
+
+        processedContent =
+          processedContent.slice(0, marker.startIndex) +
+          newContent +
+          processedContent.slice(marker.endIndex);
       }
 
-      // Check for inline mode (no newlines around content)
-      const isInline = marker.params['inline'] === 'true';
+      return processedContent;
+    };
 
-      // Replace content
-      const newContent = isInline
-        ? marker.startMarkerLine + embedResult.content + marker.endMarkerLine
-        : marker.startMarkerLine +
-          '\n' +
-          embedResult.content +
-          '\n' +
-          marker.endMarkerLine;
+    const processedContent = await renderMarkers(
+      bodyContent,
+      markers,
+      frontmatterLineOffset + 1,
+      0
+    );
 
-      processedContent =
-        processedContent.slice(0, marker.startIndex) +
-        newContent +
-        processedContent.slice(marker.endIndex);
+    markerResults.sort((a, b) => a.result.line - b.result.line || a.column - b.column);
+    result.markers = markerResults.map((m) => m.result);
+    result.dependencies = {
+      datasources: [
+        ...new Set(result.markers.flatMap((m) => m.dependencies?.datasources ?? [])),
+      ].sort(),
+      files: [...new Set(result.markers.flatMap((m) => m.dependencies?.files ?? []))].sort(),
+    };
 
-      result.markersUpdated++;
-    }
+    // Unknown embeds are reported after all markers so every problem is listed
+    result.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    assertNoErrorDiagnostics(result.diagnostics);
 
     // Prepend frontmatter
     const finalContent = frontmatterRaw + processedContent;
@@ -216,6 +526,8 @@ export async function processFile(
     // Check if changed
     if (finalContent !== content) {
       result.changed = true;
+      result.originalContent = content;
+      result.newContent = finalContent;
 
       if (!dryRun) {
         // Write to file
@@ -243,6 +555,30 @@ export async function processFile(
   return result;
 }
 
+/**
+ * Map items with a concurrency limit, keeping input order in the results
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  };
+
+  // At least one worker, also for NaN
+  const workerCount = Math.min(Math.max(1, Math.floor(concurrency) || 1), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
 /**
  * Get target files
  */
@@ -254,7 +590,31 @@ async function getTargetFiles(
     nodir: true,
   });
 
-  return files;
+  // Sort for deterministic processing and result order
+  return files.sort();
+}
+
+/**
+ * Record processed file in the build cache
+ * Only files that are up to date on disk and have no diagnostics are cached
+ */
+async function updateCache(
+  cache: BuildCache,
+  result: ProcessResult,
+  content: string,
+  targetConfig: TargetConfig,
+  dryRun?: boolean
+): Promise<void> {
+  if (!result.success || result.diagnostics.length > 0 || (result.changed && dryRun)) {
+    cache.remove(result.filePath);
+    return;
+  }
+
+  // Written files are hashed as stored (after line ending conversion)
+  const current = result.changed
+    ? await readFile(result.filePath, { encoding: 'utf-8' })
+    : content;
+  await cache.update(result.filePath, current, targetConfig);
 }
 
 /**
@@ -268,10 +628,20 @@ export async function build(
     dryRun?: boolean;
     verbose?: boolean;
     specificFiles?: string[];
+    /** Number of files processed in parallel (default: config.concurrency or 1) */
+    concurrency?: number;
+    /** Build cache (documents with unchanged inputs are skipped) */
+    cache?: BuildCache;
+    /** Store for datasources and files accessed by each document's embeds */
+    dependencies?: DependencyStore;
   } = {}
 ): Promise<BuildResult> {
   const startTime = Date.now();
   const results: ProcessResult[] = [];
+  const concurrency = options.concurrency ?? config.concurrency ?? 1;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${JSON.stringify(concurrency)} (must be a positive integer)`);
+  }
 
   for (const targetConfig of config.targets) {
     // Get target files
@@ -286,45 +656,77 @@ export async function build(
       files = await getTargetFiles(targetConfig);
     }
 
-    // Process each file
-    for (const filePath of files) {
-      if (options.verbose) {
-        console.log(`Processing: ${filePath}`);
-      }
-
-      try {
-        const content = await readFile(filePath, { encoding: 'utf-8' });
-        const result = await processFile(
-          filePath,
-          content,
-          targetConfig,
-          embeds,
-          datasources,
-          config,
-          options.dryRun
-        );
-
-        results.push(result);
+    // Process files in parallel (up to the concurrency limit), keeping input order
+    const targetResults = await mapWithConcurrency(
+      files,
+      concurrency,
+      async (filePath): Promise<ProcessResult> => {
+        if (options.verbose) {
+          console.log(`Processing: ${filePath}`);
+        }
 
-        if (options.verbose && result.markersUpdated > 0) {
-          console.log(
-            `  Updated ${result.markersUpdated} marker(s)${result.changed ? ' (changed)' : ' (no changes)'}`
+        try {
+          const content = await readFile(filePath, { encoding: 'utf-8' });
+
+          if (await options.cache?.isFresh(filePath, content, targetConfig)) {
+            if (options.verbose) {
+              console.log(`  Skipped ${filePath} (cached)`);
+            }
+            return {
+              filePath,
+              success: true,
+              markersUpdated: 0,
+              markers: [],
+              diagnostics: [],
+              changed: false,
+              cached: true,
+            };
+          }
+
+          const result = await processFile(
+            filePath,
+            content,
+            targetConfig,
+            embeds,
+            datasources,
+            config,
+            options.dryRun
           );
-        }
-      } catch (error) {
-        results.push({
-          filePath,
-          success: false,
-          markersUpdated: 0,
-          changed: false,
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
 
-        if (options.verbose) {
-          console.error(`  Error: ${error}`);
+          // Dependencies first: the cache hashes the recorded files
+          if (result.success && result.dependencies) {
+            options.dependencies?.record(filePath, result.dependencies);
+          }
+          if (options.cache) {
+            await updateCache(options.cache, result, content, targetConfig, options.dryRun);
+          }
+
+          if (options.verbose && result.markersUpdated > 0) {
+            console.log(
+              `  Updated ${result.markersUpdated} marker(s) in ${filePath}${result.changed ? ' (changed)' : ' (no changes)'}`
+            );
+          }
+
+          return result;
+        } catch (error) {
+          if (options.verbose) {
+            console.error(`  Error in ${filePath}: ${error}`);
+          }
+
+          return {
+            filePath,
+            success: false,
+            markersUpdated: 0,
+            markers: [],
+            diagnostics: [],
+            changed: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
         }
       }
-    }
+    );
+
+    results.push(...targetResults);
   }
 
   const duration = Date.now() - startTime;
@@ -333,6 +735,7 @@ export async function build(
     totalFiles: results.length,
     successFiles: results.filter((r) => r.success).length,
     failedFiles: results.filter((r) => !r.success).length,
+    cachedFiles: results.filter((r) => r.cached).length,
     totalMarkersUpdated: results.reduce((sum, r) => sum + r.markersUpdated, 0),
     results,
     duration,
@@ -0,0 +1,316 @@
+/**
+ * Datasource Transforms
+ * Declarative pipeline (filter, sort, pick, rename, group_by, limit, computed)
+ * applied to datasource records from config
+ */
+
+import type { FilterOperators, QueryResult, TransformStep } from '../types/index.js';
+
+/**
+ * Supported transform steps
+ */
+export const TRANSFORM_STEPS = [
+  'filter',
+  'sort',
+  'pick',
+  'rename',
+  'group_by',
+  'limit',
+  'computed',
+] as const;
+
+const FILTER_OPERATORS = new Set([
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'not_in',
+  'contains',
+  'matches',
+  'exists',
+]);
+
+type RecordValue = Record<string, unknown>;
+
+/**
+ * Check if value is a plain object
+ */
+function isPlainObject(value: unknown): value is RecordValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Check if a filter condition is an operator object (`{ gt: 1 }`) rather than a value
+ */
+function isOperatorObject(condition: unknown): condition is FilterOperators {
+  if (!isPlainObject(condition)) return false;
+  const keys = Object.keys(condition);
+  return keys.length > 0 && keys.every((key) => FILTER_OPERATORS.has(key));
+}
+
+/**
+ * Check if value is missing (undefined, null or empty string)
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Convert value for comparison (numeric strings become numbers)
+ */
+function toComparable(value: unknown): number | string | null {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const num = value.trim() === '' ? NaN : Number(value);
+    return Number.isFinite(num) ? num : value;
+  }
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compare two values (numbers numerically, otherwise as strings)
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const ca = toComparable(a);
+  const cb = toComparable(b);
+  if (typeof ca === 'number' && typeof cb === 'number') {
+    return ca - cb;
+  }
+  const sa = String(ca);
+  const sb = String(cb);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+/**
+ * Check if two values are equal (`'30'` equals `30`)
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return a === b || toComparable(a) === toComparable(b);
+}
+
+/**
+ * Check a field value against a filter condition
+ */
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    return valuesEqual(value, condition);
+  }
+
+  const ops = condition;
+  if (ops.exists !== undefined && isEmpty(value) === ops.exists) return false;
+  if ('eq' in ops && !valuesEqual(value, ops.eq)) return false;
+  if ('ne' in ops && valuesEqual(value, ops.ne)) return false;
+  if ('gt' in ops && (isEmpty(value) || compareValues(value, ops.gt) <= 0)) return false;
+  if ('gte' in ops && (isEmpty(value) || compareValues(value, ops.gte) < 0)) return false;
+  if ('lt' in ops && (isEmpty(value) || compareValues(value, ops.lt) >= 0)) return false;
+  if ('lte' in ops && (isEmpty(value) || compareValues(value, ops.lte) > 0)) return false;
+  if (ops.in && !ops.in.some((item) => valuesEqual(value, item))) return false;
+  if (ops.not_in?.some((item) => valuesEqual(value, item))) return false;
+  if ('contains' in ops) {
+    const found = Array.isArray(value)
+      ? value.some((item) => valuesEqual(item, ops.contains))
+      : typeof value === 'string' && value.includes(String(ops.contains));
+    if (!found) return false;
+  }
+  if (ops.matches !== undefined && !new RegExp(ops.matches).test(String(value ?? ''))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Replace `{field}` placeholders with record values
+ */
+function renderTemplate(template: string, record: RecordValue): string {
+  return template.replace(/\{([^}]+)\}/g, (_, key: string) => {
+    const value = record[key];
+    return value !== null && value !== undefined ? String(value) : '';
+  });
+}
+
+/**
+ * Parse sort keys (`-field` sorts descending)
+ */
+function parseSortKeys(sort: string | string[]): { field: string; descending: boolean }[] {
+  return (Array.isArray(sort) ? sort : [sort]).map((key) =>
+    key.startsWith('-') ? { field: key.slice(1), descending: true } : { field: key, descending: false }
+  );
+}
+
+/**
+ * Apply a single transform step
+ */
+function applyStep(records: QueryResult, step: TransformStep): QueryResult {
+  if ('filter' in step) {
+    const conditions = Object.entries(step.filter);
+    return records.filter((record) =>
+      conditions.every(([field, condition]) => matchesCondition(record[field], condition))
+    );
+  }
+
+  if ('sort' in step) {
+    const keys = parseSortKeys(step.sort);
+    // Array.prototype.sort is stable, so equal records keep their order
+    return [...records].sort((a, b) => {
+      for (const { field, descending } of keys) {
+        // Missing values sort last in both directions
+        const emptyA = isEmpty(a[field]);
+        const emptyB = isEmpty(b[field]);
+        if (emptyA || emptyB) {
+          if (emptyA !== emptyB) return emptyA ? 1 : -1;
+          continue;
+        }
+        const result = compareValues(a[field], b[field]);
+        if (result !== 0) return descending ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  if ('pick' in step) {
+    return records.map((record) => {
+      const picked: RecordValue = {};
+      for (const field of step.pick) {
+        if (field in record) picked[field] = record[field];
+      }
+      return picked;
+    });
+  }
+
+  if ('rename' in step) {
+    return records.map((record) => {
+      const renamed: RecordValue = {};
+      for (const [key, value] of Object.entries(record)) {
+        renamed[step.rename[key] ?? key] = value;
+      }
+      return renamed;
+    });
+  }
+
+  if ('group_by' in step) {
+    const field = step.group_by;
+    const groups = new Map<unknown, RecordValue[]>();
+    const keys = new Map<unknown, unknown>();
+    for (const record of records) {
+      const key = toComparable(record[field]);
+      if (!groups.has(key)) {
+        groups.set(key, []);
+        keys.set(key, record[field]);
+      }
+      groups.get(key)?.push(record);
+    }
+    return Array.from(groups, ([key, items]) => ({
+      [field]: keys.get(key),
+      count: items.length,
+      items,
+    }));
+  }
+
+  if ('limit' in step) {
+    return records.slice(0, step.limit);
+  }
+
+  if ('computed' in step) {
+    return records.map((record) => {
+      const result: RecordValue = { ...record };
+      // Later fields can use earlier ones
+      for (const [field, template] of Object.entries(step.computed)) {
+        result[field] = renderTemplate(template, result);
+      }
+      return result;
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Validate transform steps
+ * @returns Error messages (empty if valid)
+ */
+export function validateTransforms(transforms: unknown): string[] {
+  if (!Array.isArray(transforms)) {
+    return ['transforms must be a list of steps'];
+  }
+
+  const errors: string[] = [];
+  transforms.forEach((step: unknown, i) => {
+    const where = `transforms[${i}]`;
+    if (!isPlainObject(step) || Object.keys(step).length !== 1) {
+      errors.push(`${where}: each step must have exactly one of: ${TRANSFORM_STEPS.join(', ')}`);
+      return;
+    }
+
+    const [name, value] = Object.entries(step)[0] as [string, unknown];
+    const isStringList = (v: unknown) => Array.isArray(v) && v.every((item) => typeof item === 'string');
+    const isStringMap = (v: unknown) =>
+      isPlainObject(v) && Object.values(v).every((item) => typeof item === 'string');
+
+    switch (name) {
+      case 'filter':
+        if (!isPlainObject(value)) {
+          errors.push(`${where}: filter must map fields to conditions`);
+        } else {
+          for (const [field, condition] of Object.entries(value)) {
+            if (!isOperatorObject(condition)) {
+              continue;
+            }
+            if (condition.matches !== undefined) {
+              try {
+                new RegExp(condition.matches);
+              } catch {
+                errors.push(`${where}: invalid regular expression for "${field}"`);
+              }
+            }
+            for (const op of ['in', 'not_in'] as const) {
+              if (op in condition && !Array.isArray(condition[op])) {
+                errors.push(`${where}: ${op} for "${field}" must be a list of values`);
+              }
+            }
+          }
+        }
+        break;
+      case 'sort':
+        if (typeof value !== 'string' && !isStringList(value)) {
+          errors.push(`${where}: sort must be a field name or a list of field names`);
+        }
+        break;
+      case 'pick':
+        if (!isStringList(value)) {
+          errors.push(`${where}: pick must be a list of field names`);
+        }
+        break;
+      case 'rename':
+      case 'computed':
+        if (!isStringMap(value)) {
+          errors.push(`${where}: ${name} must map field names to strings`);
+        }
+        break;
+      case 'group_by':
+        if (typeof value !== 'string') {
+          errors.push(`${where}: group_by must be a field name`);
+        }
+        break;
+      case 'limit':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          errors.push(`${where}: limit must be a non-negative integer`);
+        }
+        break;
+      default:
+        errors.push(`${where}: unknown step "${name}" (expected one of: ${TRANSFORM_STEPS.join(', ')})`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Apply transform steps to records in order (records are not modified)
+ */
+export function applyTransforms(records: QueryResult, transforms: TransformStep[]): QueryResult {
+  return transforms.reduce(applyStep, records);
+}
@@ -5,27 +5,32 @@
 import { readFile } from 'node:fs/promises';
 import { parse } from 'csv-parse/sync';
 import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { LazyTables, DEFAULT_TABLE } from './memory-db.js';
 
 export class CsvDatasource implements Datasource {
   readonly type = 'csv';
-  private data: QueryResult | null = null;
+  private tables: LazyTables<string>;
   private filePath: string;
   private encoding: BufferEncoding;
 
-  constructor(config: DatasourceConfig) {
+  constructor(config: DatasourceConfig, name?: string) {
     if (!config.path) {
       throw new Error('CSV datasource requires "path" configuration');
     }
 
     this.filePath = config.path;
     this.encoding = (config.encoding as BufferEncoding) ?? 'utf-8';
+    const table = config.table ?? DEFAULT_TABLE;
+    this.tables = new LazyTables(
+      'CSV',
+      [table],
+      table,
+      async () => ({ [table]: await this.readData() }),
+      { alias: name, tableOptions: { numericStrings: true } }
+    );
   }
 
-  private async loadData(): Promise<QueryResult> {
-    if (this.data !== null) {
-      return this.data;
-    }
-
+  private async readData(): Promise<QueryResult> {
     const content = await readFile(this.filePath, { encoding: this.encoding });
     const records = parse(content, {
       columns: true,
@@ -33,35 +38,26 @@ export class CsvDatasource implements Datasource {
       trim: true,
     });
 
-    this.data = records as QueryResult;
-    return this.data;
+    return records as QueryResult;
   }
 
   async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
-    // CSV does not support SQL queries (simple filtering only)
-    // Simple implementation that parses WHERE clause
-    const data = await this.loadData();
-
-    // Only supports simple WHERE column = value
-    const whereMatch = sql.match(/WHERE\s+(\w+)\s*=\s*\?/i);
-    if (whereMatch && params.length > 0) {
-      const column = whereMatch[1];
-      const value = params[0];
-      return data.filter((row) => String(row[column ?? '']) === String(value));
-    }
-
-    return data;
+    return this.tables.query(sql, params);
   }
 
   async getAll(): Promise<QueryResult> {
-    return this.loadData();
+    return this.tables.getAll();
   }
 
   async close(): Promise<void> {
-    this.data = null;
+    await this.tables.close();
   }
 }
 
-export function createCsvDatasource(config: DatasourceConfig): CsvDatasource {
-  return new CsvDatasource(config);
+export function createCsvDatasource(
+  config: DatasourceConfig,
+  _datasources?: Record<string, DatasourceConfig>,
+  name?: string
+): CsvDatasource {
+  return new CsvDatasource(config, name);
 }
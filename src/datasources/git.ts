@@ -0,0 +1,241 @@
+/**
+ * Git Datasource
+ * Read commits, tags, authors and per-file history from a local repository
+ * (runs the `git` binary; no network access)
+ */
+
+import { execFile, execFileSync } from 'node:child_process';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { LazyTables } from './memory-db.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Tables provided by the git datasource
+ */
+export const GIT_TABLES = ['commits', 'tags', 'authors', 'files'] as const;
+
+export type GitTable = (typeof GIT_TABLES)[number];
+
+/** Record separator */
+const RS = '\x1e';
+/** Field separator */
+const FS = '\x1f';
+
+/**
+ * Git directories of repositories by path (git dir holds HEAD, common dir the refs)
+ */
+const gitDirs = new Map<string, { gitDir: string; commonDir: string }>();
+
+/**
+ * Get git directories of the repository containing a path
+ * (`path` may be a subdirectory; worktrees have `.git` files pointing elsewhere)
+ */
+function getGitDirs(path: string): { gitDir: string; commonDir: string } {
+  const repoPath = resolve(path);
+  let dirs = gitDirs.get(repoPath);
+  if (!dirs) {
+    try {
+      const [gitDir = '.git', commonDir = gitDir] = execFileSync(
+        'git',
+        ['-C', repoPath, 'rev-parse', '--git-dir', '--git-common-dir'],
+        { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }
+      ).split('\n');
+      // Relative paths are relative to repoPath
+      dirs = { gitDir: resolve(repoPath, gitDir), commonDir: resolve(repoPath, commonDir) };
+    } catch {
+      // Not a repository (yet), or no git binary
+      dirs = { gitDir: join(repoPath, '.git'), commonDir: join(repoPath, '.git') };
+    }
+    gitDirs.set(repoPath, dirs);
+  }
+  return dirs;
+}
+
+/**
+ * Files to watch for repository changes (HEAD and refs move on commit, checkout and tag)
+ */
+export function getGitDatasourcePaths(config: DatasourceConfig): string[] {
+  const { gitDir, commonDir } = getGitDirs(config.path ?? '.');
+  return [join(gitDir, 'HEAD'), join(commonDir, 'refs'), join(commonDir, 'packed-refs')];
+}
+
+export class GitDatasource implements Datasource {
+  readonly type = 'git';
+  private repoPath: string;
+  private ref: string;
+  private maxCount?: number;
+  private tables: LazyTables<GitTable>;
+
+  constructor(config: DatasourceConfig) {
+    const table = config.table ?? 'commits';
+    if (!(GIT_TABLES as readonly string[]).includes(table)) {
+      throw new Error(
+        `Git datasource "table" must be one of: ${GIT_TABLES.join(', ')} (got "${table}")`
+      );
+    }
+    if (
+      config.max_count !== undefined &&
+      (!Number.isInteger(config.max_count) || config.max_count < 1)
+    ) {
+      throw new Error('Git datasource "max_count" must be a positive integer');
+    }
+
+    this.repoPath = config.path ?? '.';
+    this.ref = config.ref ?? 'HEAD';
+    this.maxCount = config.max_count;
+    this.tables = new LazyTables('Git', GIT_TABLES, table as GitTable, (names) =>
+      this.readTables(names)
+    );
+  }
+
+  /**
+   * Run a git command in the repository
+   */
+  private async git(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(
+        'git',
+        ['-C', this.repoPath, '-c', 'core.quotepath=off', ...args],
+        { encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 }
+      );
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      const message = stderr || (error instanceof Error ? error.message : String(error));
+      throw new Error(`Git datasource failed: ${message}`);
+    }
+  }
+
+  /**
+   * Read the requested tables (authors and files share one history walk)
+   */
+  private async readTables(names: GitTable[]): Promise<Partial<Record<GitTable, QueryResult>>> {
+    const [commits, tags, history] = await Promise.all([
+      names.includes('commits') ? this.readCommits() : undefined,
+      names.includes('tags') ? this.readTags() : undefined,
+      names.includes('authors') || names.includes('files') ? this.readHistory() : undefined,
+    ]);
+    return { commits, tags, ...history };
+  }
+
+  private async readHistory(): Promise<Pick<Record<GitTable, QueryResult>, 'authors' | 'files'>> {
+    // Both print paths relative to the repository root (`path` may be a subdirectory)
+    const [history, tracked] = await Promise.all([
+      this.git(['log', `--format=${RS}%H${FS}%an${FS}%ae${FS}%aI${FS}%s`, '--name-only', this.ref]),
+      this.git(['ls-files', '--full-name']),
+    ]);
+
+    const authors = new Map<string, Record<string, unknown>>();
+    const files = new Map<string, Record<string, unknown>>();
+
+    // Newest first: the first commit touching a file is its last modification
+    for (const entry of history.split(RS).slice(1)) {
+      const [header = '', ...paths] = entry.split('\n');
+      const [hash, name, email, date, subject] = header.split(FS);
+
+      const author = authors.get(email ?? '');
+      if (author) {
+        author['commits'] = (author['commits'] as number) + 1;
+        author['first_commit_date'] = date;
+      } else {
+        authors.set(email ?? '', {
+          name,
+          email,
+          commits: 1,
+          first_commit_date: date,
+          last_commit_date: date,
+        });
+      }
+
+      for (const path of paths) {
+        if (!path) continue;
+        const file = files.get(path);
+        if (file) {
+          file['commits'] = (file['commits'] as number) + 1;
+        } else {
+          files.set(path, {
+            path,
+            last_commit: hash,
+            last_author: name,
+            last_date: date,
+            last_subject: subject,
+            commits: 1,
+          });
+        }
+      }
+    }
+
+    return {
+      authors: Array.from(authors.values()).sort(
+        (a, b) => (b['commits'] as number) - (a['commits'] as number)
+      ),
+      // Only files that still exist in the working tree
+      files: tracked
+        .split('\n')
+        .filter((path) => files.has(path))
+        .map((path) => files.get(path) as Record<string, unknown>),
+    };
+  }
+
+  private async readCommits(): Promise<QueryResult> {
+    const args = ['log', `--format=%H${FS}%h${FS}%an${FS}%ae${FS}%aI${FS}%s${FS}%b${RS}`];
+    if (this.maxCount !== undefined) {
+      args.push(`--max-count=${this.maxCount}`);
+    }
+    args.push(this.ref);
+
+    const output = await this.git(args);
+    return output
+      .split(RS)
+      .map((entry) => entry.replace(/^\n/, ''))
+      .filter((entry) => entry !== '')
+      .map((entry) => {
+        const [hash, shortHash, author, email, date, subject, body = ''] = entry.split(FS);
+        return {
+          hash,
+          short_hash: shortHash,
+          author,
+          email,
+          date,
+          subject,
+          body: body.trim(),
+        };
+      });
+  }
+
+  private async readTags(): Promise<QueryResult> {
+    // *objectname is the tagged commit of annotated tags
+    const output = await this.git([
+      'for-each-ref',
+      'refs/tags',
+      '--sort=-creatordate',
+      '--format=%(refname:short)%1f%(objectname)%1f%(*objectname)%1f%(creatordate:iso-strict)%1f%(subject)',
+    ]);
+    return output
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => {
+        const [name, objectName, commit, date, subject] = line.split(FS);
+        return { name, hash: commit || objectName, date, subject };
+      });
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    return this.tables.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return this.tables.getAll();
+  }
+
+  async close(): Promise<void> {
+    await this.tables.close();
+  }
+}
+
+export function createGitDatasource(config: DatasourceConfig): GitDatasource {
+  return new GitDatasource(config);
+}
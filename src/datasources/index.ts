@@ -1,38 +1,227 @@
 /**
  * Datasource Factory
+ * Built-in datasource types and the registry for custom types
  */
 
-import type { Datasource, DatasourceConfig, EmbedifyConfig } from '../types/index.js';
+import type {
+  Datasource,
+  DatasourceConfig,
+  DatasourceFactory,
+  EmbedifyConfig,
+  QueryResult,
+  TransformStep,
+} from '../types/index.js';
+import { applyTransforms, validateTransforms } from '../core/transforms.js';
 import { createSqliteDatasource } from './sqlite.js';
 import { createCsvDatasource } from './csv.js';
 import { createJsonDatasource } from './json.js';
 import { createYamlDatasource } from './yaml.js';
 import { createGlobDatasource } from './glob.js';
+import { createSqlDatasource, getSqlDatasourcePaths } from './sql.js';
+import { createGitDatasource, getGitDatasourcePaths } from './git.js';
+import { createTypeScriptDatasource, getTypeScriptDatasourcePaths } from './typescript.js';
+import { createOpenApiDatasource } from './openapi.js';
+import { createMarkdownDatasource, getMarkdownDatasourcePaths } from './markdown.js';
 
 export { SqliteDatasource, createSqliteDatasource } from './sqlite.js';
 export { CsvDatasource, createCsvDatasource } from './csv.js';
 export { JsonDatasource, createJsonDatasource } from './json.js';
 export { YamlDatasource, createYamlDatasource } from './yaml.js';
 export { GlobDatasource, createGlobDatasource } from './glob.js';
+export { SqlDatasource, createSqlDatasource } from './sql.js';
+export { GitDatasource, createGitDatasource, GIT_TABLES } from './git.js';
+export type { GitTable } from './git.js';
+export {
+  TypeScriptDatasource,
+  createTypeScriptDatasource,
+  TYPESCRIPT_TABLES,
+} from './typescript.js';
+export type { TypeScriptTable } from './typescript.js';
+export { OpenApiDatasource, createOpenApiDatasource, OPENAPI_TABLES } from './openapi.js';
+export type { OpenApiTable } from './openapi.js';
+export { MarkdownDatasource, createMarkdownDatasource } from './markdown.js';
+
+/**
+ * Custom datasource type definition
+ */
+export interface DatasourceTypeDefinition {
+  /** Create a datasource from its config */
+  create: DatasourceFactory;
+  /**
+   * Files the datasource reads, used by watch mode, the dependency graph
+   * and the build cache (default: `path` from the config)
+   */
+  getPaths?: (
+    config: DatasourceConfig,
+    datasources: Record<string, DatasourceConfig>
+  ) => string[];
+}
+
+/**
+ * Datasource types exported by a datasource module (`datasource_modules`)
+ *
+ * @example
+ * ```typescript
+ * export const datasourceTypes: DatasourceTypes = {
+ *   toml: (config) => new TomlDatasource(config),
+ * };
+ * ```
+ */
+export type DatasourceTypes = Record<string, DatasourceFactory | DatasourceTypeDefinition>;
+
+/**
+ * Registered datasource types (built-in types are registered up front)
+ */
+const datasourceTypes = new Map<string, DatasourceTypeDefinition>([
+  ['sqlite', { create: createSqliteDatasource }],
+  ['csv', { create: createCsvDatasource }],
+  ['json', { create: createJsonDatasource }],
+  ['yaml', { create: createYamlDatasource }],
+  ['glob', { create: createGlobDatasource }],
+  ['sql', { create: createSqlDatasource, getPaths: getSqlDatasourcePaths }],
+  ['git', { create: createGitDatasource, getPaths: getGitDatasourcePaths }],
+  ['typescript', { create: createTypeScriptDatasource, getPaths: getTypeScriptDatasourcePaths }],
+  ['openapi', { create: createOpenApiDatasource }],
+  ['markdown', { create: createMarkdownDatasource, getPaths: getMarkdownDatasourcePaths }],
+]);
+
+/**
+ * Register a datasource type (replaces an existing type with the same name)
+ *
+ * @example
+ * ```typescript
+ * registerDatasourceType('toml', (config) => new TomlDatasource(config));
+ * ```
+ */
+export function registerDatasourceType(
+  type: string,
+  definition: DatasourceFactory | DatasourceTypeDefinition
+): void {
+  datasourceTypes.set(
+    type,
+    typeof definition === 'function' ? { create: definition } : definition
+  );
+}
+
+/**
+ * Remove a registered datasource type
+ *
+ * @returns Whether the type was registered
+ */
+export function unregisterDatasourceType(type: string): boolean {
+  return datasourceTypes.delete(type);
+}
+
+/**
+ * Get registered datasource type names
+ */
+export function getDatasourceTypes(): string[] {
+  return Array.from(datasourceTypes.keys());
+}
+
+/**
+ * Get files a datasource reads (for watch mode, dependency graph and build cache)
+ *
+ * @param datasources - All configured datasources (for types that refer to others, e.g. `sql`)
+ */
+export function getDatasourcePaths(
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig> = {}
+): string[] {
+  const definition = datasourceTypes.get(config.type);
+  if (definition?.getPaths) {
+    return definition.getPaths(config, datasources);
+  }
+  return config.path ? [config.path] : [];
+}
+
+/**
+ * Datasource created by an async factory
+ * Calls wait until the factory has resolved
+ */
+class DeferredDatasource implements Datasource {
+  readonly type: string;
+  private pending: Promise<Datasource>;
+
+  constructor(type: string, pending: Promise<Datasource>) {
+    this.type = type;
+    this.pending = pending;
+    // Errors are reported when the datasource is used
+    this.pending.catch(() => undefined);
+  }
+
+  async query(sql: string, params?: unknown[]): Promise<QueryResult> {
+    return (await this.pending).query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return (await this.pending).getAll();
+  }
+
+  async close(): Promise<void> {
+    const datasource = await this.pending.catch(() => null);
+    await datasource?.close();
+  }
+}
+
+/**
+ * Datasource with config `transforms` applied to getAll() results
+ */
+class TransformedDatasource implements Datasource {
+  readonly type: string;
+  private datasource: Datasource;
+  private transforms: TransformStep[];
+
+  constructor(datasource: Datasource, transforms: TransformStep[]) {
+    this.type = datasource.type;
+    this.datasource = datasource;
+    this.transforms = transforms;
+  }
+
+  async query(sql: string, params?: unknown[]): Promise<QueryResult> {
+    return this.datasource.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return applyTransforms(await this.datasource.getAll(), this.transforms);
+  }
+
+  async close(): Promise<void> {
+    await this.datasource.close();
+  }
+}
 
 /**
  * Create a datasource
+ *
+ * @param datasources - All configured datasources (for types that refer to others, e.g. `sql`)
+ * @param name - Name of the datasource in `datasources`
  */
-export function createDatasource(config: DatasourceConfig): Datasource {
-  switch (config.type) {
-    case 'sqlite':
-      return createSqliteDatasource(config);
-    case 'csv':
-      return createCsvDatasource(config);
-    case 'json':
-      return createJsonDatasource(config);
-    case 'yaml':
-      return createYamlDatasource(config);
-    case 'glob':
-      return createGlobDatasource(config);
-    default:
-      throw new Error(`Unknown datasource type: ${(config as DatasourceConfig).type}`);
+export function createDatasource(
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig> = {},
+  name?: string
+): Datasource {
+  const definition = datasourceTypes.get(config.type);
+  if (!definition) {
+    throw new Error(
+      `Unknown datasource type: ${config.type} (registered: ${getDatasourceTypes().join(', ')})`
+    );
+  }
+
+  if (config.transforms !== undefined) {
+    const errors = validateTransforms(config.transforms);
+    if (errors.length > 0) {
+      throw new Error(`Invalid datasource transforms: ${errors.join('; ')}`);
+    }
   }
+
+  const created = definition.create(config, datasources, name);
+  const datasource =
+    created instanceof Promise ? new DeferredDatasource(config.type, created) : created;
+  return config.transforms?.length
+    ? new TransformedDatasource(datasource, config.transforms)
+    : datasource;
 }
 
 /**
@@ -45,7 +234,7 @@ export function initializeDatasources(
 
   if (config.datasources) {
     for (const [name, dsConfig] of Object.entries(config.datasources)) {
-      datasources[name] = createDatasource(dsConfig);
+      datasources[name] = createDatasource(dsConfig, config.datasources, name);
     }
   }
 
@@ -0,0 +1,143 @@
+/**
+ * Markdown Datasource
+ * Frontmatter, headings and word counts of Markdown documents
+ * (for doc indexes, tag pages and related-docs tables)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { globSync } from 'glob';
+import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { parseFrontmatter } from '../core/parser.js';
+import { findMarkdownCodeRanges, isInCodeRange } from '../core/markdown-code.js';
+import { readFileInfos } from './glob.js';
+import { LazyTables, DEFAULT_TABLE } from './memory-db.js';
+
+/**
+ * Heading of a Markdown document
+ */
+interface MarkdownHeading {
+  level: number;
+  text: string;
+}
+
+/**
+ * Files read by a markdown datasource (the matched documents)
+ */
+export function getMarkdownDatasourcePaths(config: DatasourceConfig): string[] {
+  return config.pattern ? globSync(config.pattern, { nodir: true }).sort() : [];
+}
+
+/**
+ * Remove code (blocks and inline spans) and HTML comments (including embedoc markers)
+ */
+function stripNonProse(content: string): string {
+  let prose = '';
+  let offset = 0;
+  for (const range of findMarkdownCodeRanges(content)) {
+    prose += content.slice(offset, range.start) + '\n';
+    offset = Math.max(offset, range.end);
+  }
+  prose += content.slice(offset);
+  return prose.replace(/<!--[\s\S]*?-->/g, '');
+}
+
+/**
+ * Get ATX headings (`# Title`) outside code blocks
+ */
+function extractHeadings(content: string): MarkdownHeading[] {
+  const codeRanges = findMarkdownCodeRanges(content);
+  const headings: MarkdownHeading[] = [];
+
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    const match = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/.exec(line);
+    if (match?.[1] && match[2] && !isInCodeRange(codeRanges, lineStart)) {
+      headings.push({ level: match[1].length, text: match[2] });
+    }
+  }
+  return headings;
+}
+
+/**
+ * Count words of prose (code and HTML comments are not counted)
+ */
+function countWords(content: string): number {
+  return stripNonProse(content).match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+export class MarkdownDatasource implements Datasource {
+  readonly type = 'markdown';
+  private tables: LazyTables<string>;
+  private pattern: string;
+  private encoding: BufferEncoding;
+
+  constructor(config: DatasourceConfig) {
+    if (!config.pattern) {
+      throw new Error('Markdown datasource requires "pattern" configuration');
+    }
+
+    const table = config.table ?? DEFAULT_TABLE;
+    this.pattern = config.pattern;
+    this.encoding = (config.encoding as BufferEncoding) ?? 'utf-8';
+    this.tables = new LazyTables('Markdown', [table], table, async () => ({
+      [table]: await this.readData(),
+    }));
+  }
+
+  private async readData(): Promise<QueryResult> {
+    const fileInfos = await readFileInfos(this.pattern);
+    fileInfos.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    const rows: QueryResult = [];
+    for (const fileInfo of fileInfos) {
+      const source = await readFile(fileInfo.path, { encoding: this.encoding });
+
+      let frontmatter: Record<string, unknown>;
+      let content: string;
+      try {
+        ({ data: frontmatter, content } = parseFrontmatter(source));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Markdown datasource: invalid frontmatter in ${fileInfo.path}: ${message}`);
+      }
+
+      const headings = extractHeadings(content);
+      const row: Record<string, unknown> = {
+        ...fileInfo,
+        heading: headings[0]?.text ?? null,
+        headings,
+        word_count: countWords(content),
+        frontmatter,
+      };
+      // Frontmatter fields become columns unless they clash with the built-in ones
+      // or an earlier field (SQLite column names are case-insensitive)
+      const columns = new Set(Object.keys(row).map((key) => key.toLowerCase()));
+      for (const [key, value] of Object.entries(frontmatter)) {
+        if (!columns.has(key.toLowerCase())) {
+          columns.add(key.toLowerCase());
+          row[key] = value;
+        }
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    return this.tables.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return this.tables.getAll();
+  }
+
+  async close(): Promise<void> {
+    await this.tables.close();
+  }
+}
+
+export function createMarkdownDatasource(config: DatasourceConfig): MarkdownDatasource {
+  return new MarkdownDatasource(config);
+}
@@ -0,0 +1,443 @@
+/**
+ * In-Memory SQL
+ * Load datasource rows into an in-memory SQLite database, so that
+ * file datasources support the same SQL as SQLite datasources
+ */
+
+import Database from 'better-sqlite3';
+import type { QueryResult } from '../types/index.js';
+
+/**
+ * Default table name for a datasource's rows
+ */
+export const DEFAULT_TABLE = 'data';
+
+/**
+ * Table loading options
+ */
+export interface TableOptions {
+  /**
+   * Store numeric strings as numbers (for CSV, where every value is a string);
+   * only when every value converts back unchanged (not "1.50" or "1e3")
+   */
+  numericStrings?: boolean;
+}
+
+/**
+ * Values restored from their SQLite representation in query results
+ */
+type ColumnKind = 'boolean' | 'json';
+
+const NUMERIC_STRING = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Quote SQL identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Check if value is a string holding a number in its canonical form
+ * (so that query results show the same text as the file)
+ */
+function isNumericString(value: unknown): value is string {
+  return typeof value === 'string' && NUMERIC_STRING.test(value) && String(Number(value)) === value;
+}
+
+/**
+ * Check if value is a plain object (not an array or date)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Convert value for SQLite (booleans as 0/1, objects and arrays as JSON text)
+ */
+function toSqlValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Infer column type (affinity) and the kind of values to restore
+ * Columns with mixed value types get no affinity, so values are stored as-is
+ */
+function inferColumn(
+  values: unknown[],
+  options: TableOptions
+): { type: string; kind?: ColumnKind } {
+  const present = values.filter((v) => v !== undefined && v !== null && v !== '');
+  if (present.length === 0) {
+    return { type: '' };
+  }
+  if (present.every((v) => typeof v === 'boolean')) {
+    return { type: 'INTEGER', kind: 'boolean' };
+  }
+  if (present.every((v) => typeof v === 'object' && !(v instanceof Date))) {
+    return { type: 'TEXT', kind: 'json' };
+  }
+
+  const numbers = present.map((v) =>
+    typeof v === 'number'
+      ? v
+      : options.numericStrings && isNumericString(v)
+        ? Number(v)
+        : null
+  );
+  if (numbers.every((n) => n !== null)) {
+    return { type: numbers.every((n) => Number.isInteger(n)) ? 'INTEGER' : 'REAL' };
+  }
+  if (present.every((v) => typeof v === 'string' || v instanceof Date)) {
+    return { type: 'TEXT' };
+  }
+  return { type: '' };
+}
+
+/**
+ * Get tables from a parsed JSON/YAML document:
+ * top-level properties that are arrays of objects
+ *
+ * @example
+ * `{ "users": [...], "orders": [...] }` -> tables `users` and `orders`
+ */
+export function getNestedTables(parsed: unknown): Record<string, QueryResult> {
+  const tables: Record<string, QueryResult> = {};
+  if (!isPlainObject(parsed)) {
+    return tables;
+  }
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+      tables[key] = value as QueryResult;
+    }
+  }
+  return tables;
+}
+
+/**
+ * Add "FROM <table>" to a SELECT without FROM clause
+ * (e.g. `SELECT * WHERE status = ?` -> `SELECT * FROM data WHERE status = ?`)
+ */
+export function addDefaultFrom(sql: string, table: string): string {
+  // Blank out string literals and quoted identifiers so their contents are not matched
+  const masked = sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"/g, (m) => ' '.repeat(m.length));
+  if (!/^\s*SELECT\b/i.test(masked) || /\bFROM\b/i.test(masked)) {
+    return sql;
+  }
+
+  const from = ` FROM ${quoteIdentifier(table)} `;
+  const clause = /\b(?:WHERE|GROUP\s+BY|HAVING|WINDOW|ORDER\s+BY|LIMIT)\b/i.exec(masked);
+  if (clause) {
+    return sql.slice(0, clause.index).trimEnd() + from + sql.slice(clause.index);
+  }
+  const trimmed = sql.trimEnd().replace(/;$/, '');
+  return trimmed + from.trimEnd();
+}
+
+/**
+ * In-memory SQLite database holding datasource rows as tables
+ */
+export class InMemoryDatabase {
+  private db: Database.Database;
+  private label: string;
+  private defaultTable: string | undefined;
+  /** Value kinds by column name (null when tables disagree) */
+  private columnKinds: Map<string, ColumnKind | null> = new Map();
+
+  /**
+   * @param label - Used in error messages (e.g. "CSV")
+   * @param defaultTable - Table used by SELECT statements without FROM clause
+   */
+  constructor(label: string, defaultTable?: string) {
+    this.db = new Database(':memory:');
+    this.label = label;
+    this.defaultTable = defaultTable;
+  }
+
+  /**
+   * Create a table from rows (columns are the union of all row keys)
+   */
+  addTable(name: string, rows: QueryResult, options: TableOptions = {}): void {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          columns.push(key);
+        }
+      }
+    }
+
+    if (columns.length === 0) {
+      // SQLite tables need at least one column
+      this.db.exec(`CREATE TABLE ${quoteIdentifier(name)} (_)`);
+      return;
+    }
+
+    const types = columns.map((column) => {
+      const { type, kind } = inferColumn(
+        rows.map((row) => row[column]),
+        options
+      );
+      this.recordKind(column, kind);
+      return type;
+    });
+    const definitions = columns.map((column, i) =>
+      types[i] ? `${quoteIdentifier(column)} ${types[i]}` : quoteIdentifier(column)
+    );
+    this.db.exec(`CREATE TABLE ${quoteIdentifier(name)} (${definitions.join(', ')})`);
+
+    // Empty values in numeric columns are stored as NULL
+    const numeric = types.map((type) => type === 'INTEGER' || type === 'REAL');
+    const insert = this.db.prepare(
+      `INSERT INTO ${quoteIdentifier(name)} VALUES (${columns.map(() => '?').join(', ')})`
+    );
+    const insertAll = this.db.transaction((records: QueryResult) => {
+      for (const row of records) {
+        insert.run(
+          ...columns.map((column, i) =>
+            numeric[i] && row[column] === '' ? null : toSqlValue(row[column])
+          )
+        );
+      }
+    });
+    insertAll(rows);
+  }
+
+  /**
+   * Make a table queryable under another name as well (skipped if a table
+   * or view with that name exists)
+   */
+  addAlias(alias: string, table: string): void {
+    const existing = this.db
+      .prepare(
+        'SELECT 1 FROM sqlite_master WHERE name = ? COLLATE NOCASE ' +
+          'UNION ALL SELECT 1 FROM sqlite_temp_master WHERE name = ? COLLATE NOCASE'
+      )
+      .get(alias, alias);
+    if (!existing) {
+      this.createView(alias, `SELECT * FROM ${quoteIdentifier(table)}`);
+    }
+  }
+
+  /**
+   * Attach a SQLite database file under a schema name (tables become `schema.table`)
+   */
+  attach(schema: string, path: string): void {
+    this.db.prepare('ATTACH DATABASE ? AS ?').run(path, schema);
+  }
+
+  /**
+   * Create a view (temporary, so it can join tables of attached databases)
+   */
+  createView(name: string, sql: string): void {
+    try {
+      this.db.exec(`CREATE TEMP VIEW ${quoteIdentifier(name)} AS ${sql}`);
+      // SQLite resolves view contents lazily; compile once to report missing tables now
+      this.db.prepare(`SELECT * FROM ${quoteIdentifier(name)}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${this.label} view "${name}" failed: ${message}`);
+    }
+  }
+
+  /**
+   * Reject writes from queries (e.g. to attached database files)
+   */
+  setReadOnly(): void {
+    this.db.pragma('query_only = ON');
+  }
+
+  /**
+   * Remember how to restore values of a column in query results
+   */
+  private recordKind(column: string, kind: ColumnKind | undefined): void {
+    if (!this.columnKinds.has(column)) {
+      this.columnKinds.set(column, kind ?? null);
+    } else if (this.columnKinds.get(column) !== (kind ?? null)) {
+      this.columnKinds.set(column, null);
+    }
+  }
+
+  /**
+   * Restore booleans and JSON values in a result row
+   */
+  private restoreRow(row: Record<string, unknown>): Record<string, unknown> {
+    for (const [key, value] of Object.entries(row)) {
+      const kind = this.columnKinds.get(key);
+      if (kind === 'boolean' && typeof value === 'number') {
+        row[key] = value !== 0;
+      } else if (kind === 'json' && typeof value === 'string') {
+        try {
+          row[key] = JSON.parse(value) as unknown;
+        } catch {
+          // Keep text that is not JSON
+        }
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Execute a SQL query
+   */
+  query(sql: string, params: unknown[] = []): QueryResult {
+    try {
+      const statement = this.defaultTable ? addDefaultFrom(sql, this.defaultTable) : sql;
+      const rows = this.db.prepare(statement).all(...params.map(toSqlValue));
+      return (rows as Record<string, unknown>[]).map((row) => this.restoreRow(row));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${this.label} query failed: ${message}`);
+    }
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * LazyTables options
+ */
+export interface LazyTablesOptions {
+  /** Options for loading tables into the database (e.g. numericStrings for CSV) */
+  tableOptions?: TableOptions;
+  /**
+   * Another name for the default table in `query()`, usually the datasource name
+   * (skipped if a table has that name)
+   */
+  alias?: string;
+}
+
+/**
+ * Tables of a datasource, read on first use and queryable with SQL
+ *
+ * Concurrent callers share the same read; failed reads are retried on the next call.
+ * `query()` loads every table into an in-memory SQLite database.
+ */
+export class LazyTables<T extends string> {
+  private label: string;
+  private names: readonly T[];
+  private defaultTable: T;
+  private read: (names: T[]) => Partial<Record<T, QueryResult>> | Promise<Partial<Record<T, QueryResult>>>;
+  private options: LazyTablesOptions;
+  private tables: Map<T, Promise<QueryResult>> = new Map();
+  private database: Promise<InMemoryDatabase> | null = null;
+
+  /**
+   * @param label - Used in error messages (e.g. "Git")
+   * @param names - Tables provided by the datasource
+   * @param defaultTable - Table returned by `getAll()` and used by SELECT statements without FROM clause
+   * @param read - Read the requested tables (tables returned in addition are kept too,
+   *   and queryable once read)
+   */
+  constructor(
+    label: string,
+    names: readonly T[],
+    defaultTable: T,
+    read: (names: T[]) => Partial<Record<T, QueryResult>> | Promise<Partial<Record<T, QueryResult>>>,
+    options: LazyTablesOptions = {}
+  ) {
+    this.label = label;
+    this.names = names;
+    this.defaultTable = defaultTable;
+    this.read = read;
+    this.options = options;
+  }
+
+  /**
+   * Get rows of a table (read once)
+   */
+  getTable(name: T): Promise<QueryResult> {
+    this.readMissing([name]);
+    return this.tables.get(name) as Promise<QueryResult>;
+  }
+
+  /**
+   * Start reading tables that are neither loaded nor being read
+   */
+  private readMissing(names: readonly T[]): void {
+    const missing = names.filter((name) => !this.tables.has(name));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const reading = Promise.resolve().then(() => this.read(missing));
+    for (const name of missing) {
+      const table = reading.then((tables) => tables[name] ?? []);
+      this.tables.set(name, table);
+      table.catch(() => {
+        if (this.tables.get(name) === table) {
+          this.tables.delete(name);
+        }
+      });
+    }
+    reading.then((tables) => {
+      for (const [name, rows] of Object.entries(tables) as [T, QueryResult | undefined][]) {
+        if (rows && !this.tables.has(name)) {
+          this.tables.set(name, Promise.resolve(rows));
+        }
+      }
+    }, () => undefined);
+  }
+
+  /**
+   * Load all tables into an in-memory SQLite database once (for query())
+   */
+  private loadDatabase(): Promise<InMemoryDatabase> {
+    this.readMissing(this.names);
+    this.database ??= Promise.all(this.names.map((name) => this.getTable(name))).then(async () => {
+      // Includes tables returned in addition to the requested ones
+      const tables = await Promise.all(
+        Array.from(this.tables, async ([name, rows]) => [name, await rows] as const)
+      );
+      const database = new InMemoryDatabase(this.label, this.defaultTable);
+      for (const [name, rows] of tables) {
+        database.addTable(name, rows, this.options.tableOptions);
+      }
+      if (this.options.alias) {
+        database.addAlias(this.options.alias, this.defaultTable);
+      }
+      return database;
+    }).catch((error: unknown) => {
+      this.database = null;
+      throw error;
+    });
+    return this.database;
+  }
+
+  /**
+   * Execute a SQL query over all tables
+   */
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    const database = await this.loadDatabase();
+    return database.query(sql, params);
+  }
+
+  /**
+   * Get rows of the default table
+   */
+  getAll(): Promise<QueryResult> {
+    return this.getTable(this.defaultTable);
+  }
+
+  /**
+   * Forget loaded tables and close the database
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.tables.clear();
+    this.database = null;
+    (await database?.catch(() => null))?.close();
+  }
+}
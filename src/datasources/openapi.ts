@@ -0,0 +1,326 @@
+/**
+ * OpenAPI Datasource
+ * Operations, parameters, responses and schemas of a local OpenAPI 3.x document
+ * (YAML or JSON; local `$ref`s are resolved)
+ */
+
+import { readFile } from 'node:fs/promises';
+import yaml from 'js-yaml';
+import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { LazyTables } from './memory-db.js';
+
+/**
+ * Tables provided by the openapi datasource
+ */
+export const OPENAPI_TABLES = [
+  'operations',
+  'parameters',
+  'responses',
+  'schemas',
+  'properties',
+  'info',
+] as const;
+
+export type OpenApiTable = (typeof OPENAPI_TABLES)[number];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+type OpenApiObject = Record<string, unknown>;
+
+/**
+ * Check if value is a plain object
+ */
+function isObject(value: unknown): value is OpenApiObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get string property (empty string if missing)
+ */
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Local `$ref` resolution within one document
+ */
+class RefResolver {
+  constructor(private document: OpenApiObject) {}
+
+  /**
+   * Get the value at a local reference (`#/components/schemas/User`)
+   */
+  lookup(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      return undefined;
+    }
+    let node: unknown = this.document;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      node = isObject(node) || Array.isArray(node) ? (node as OpenApiObject)[key] : undefined;
+    }
+    return node;
+  }
+
+  /**
+   * Follow `$ref`s at the top of a node (unresolvable references are returned as-is)
+   */
+  deref(node: unknown, seen: Set<string> = new Set()): unknown {
+    if (!isObject(node) || typeof node['$ref'] !== 'string' || seen.has(node['$ref'])) {
+      return node;
+    }
+    const target = this.lookup(node['$ref']);
+    if (target === undefined) {
+      return node;
+    }
+    return this.deref(target, new Set([...seen, node['$ref']]));
+  }
+
+  /**
+   * Resolve all `$ref`s in a node (recursive references are kept as `$ref`)
+   */
+  resolve(node: unknown, seen: Set<string> = new Set()): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.resolve(item, seen));
+    }
+    if (!isObject(node)) {
+      return node;
+    }
+
+    const ref = node['$ref'];
+    if (typeof ref === 'string') {
+      const target = this.lookup(ref);
+      if (target === undefined || seen.has(ref)) {
+        return node;
+      }
+      return this.resolve(target, new Set([...seen, ref]));
+    }
+
+    const result: OpenApiObject = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = this.resolve(value, seen);
+    }
+    return result;
+  }
+}
+
+/**
+ * Describe a schema in one word (`User`, `User[]`, `string`, `integer(int64)`)
+ */
+function describeSchema(schema: unknown): string {
+  if (!isObject(schema)) {
+    return '';
+  }
+  if (typeof schema['$ref'] === 'string') {
+    return schema['$ref'].split('/').pop() ?? '';
+  }
+  if (schema['type'] === 'array') {
+    return `${describeSchema(schema['items']) || 'any'}[]`;
+  }
+  for (const key of ['oneOf', 'anyOf', 'allOf']) {
+    const variants = schema[key];
+    if (Array.isArray(variants)) {
+      return variants.map(describeSchema).join(key === 'allOf' ? ' & ' : ' | ');
+    }
+  }
+  const type = Array.isArray(schema['type']) ? schema['type'].join(' | ') : str(schema['type']);
+  const format = str(schema['format']);
+  return format ? `${type || 'any'}(${format})` : type || (isObject(schema['properties']) ? 'object' : '');
+}
+
+/**
+ * Build table rows from an OpenAPI document
+ */
+function readDocument(document: OpenApiObject): Record<OpenApiTable, QueryResult> {
+  const refs = new RefResolver(document);
+  const operations: QueryResult = [];
+  const parameters: QueryResult = [];
+  const responses: QueryResult = [];
+  const globalSecurity = Array.isArray(document['security']) ? document['security'] : [];
+
+  const paths = isObject(document['paths']) ? document['paths'] : {};
+  for (const [path, rawPathItem] of Object.entries(paths)) {
+    const pathItem = refs.deref(rawPathItem);
+    if (!isObject(pathItem)) continue;
+    const pathParameters = Array.isArray(pathItem['parameters']) ? pathItem['parameters'] : [];
+
+    for (const [key, rawOperation] of Object.entries(pathItem)) {
+      if (!HTTP_METHODS.includes(key) || !isObject(rawOperation)) continue;
+      const operation = rawOperation;
+      const method = key.toUpperCase();
+      const operationId = str(operation['operationId']);
+      const security = Array.isArray(operation['security']) ? operation['security'] : globalSecurity;
+      const location = { operation_id: operationId, method, path };
+
+      operations.push({
+        ...location,
+        summary: str(operation['summary']),
+        description: str(operation['description']),
+        tags: Array.isArray(operation['tags']) ? operation['tags'] : [],
+        deprecated: operation['deprecated'] === true,
+        // Security requirements with at least one scheme ({} means optional)
+        auth: security.some((req) => isObject(req) && Object.keys(req).length > 0),
+      });
+
+      // Operation parameters override path-level ones with the same name and location
+      const params = new Map<string, OpenApiObject>();
+      const operationParameters = Array.isArray(operation['parameters']) ? operation['parameters'] : [];
+      for (const rawParam of [...pathParameters, ...operationParameters]) {
+        const param = refs.deref(rawParam);
+        if (isObject(param)) {
+          params.set(`${str(param['in'])}:${str(param['name'])}`, param);
+        }
+      }
+      for (const param of params.values()) {
+        parameters.push({
+          ...location,
+          name: str(param['name']),
+          in: str(param['in']),
+          required: param['required'] === true,
+          description: str(param['description']),
+          type: describeSchema(param['schema']),
+          schema: refs.resolve(param['schema'] ?? null),
+          deprecated: param['deprecated'] === true,
+        });
+      }
+
+      const requestBody = refs.deref(operation['requestBody']);
+      if (isObject(requestBody) && isObject(requestBody['content'])) {
+        for (const [contentType, media] of Object.entries(requestBody['content'])) {
+          const schema = isObject(media) ? media['schema'] : undefined;
+          parameters.push({
+            ...location,
+            name: 'body',
+            in: 'body',
+            required: requestBody['required'] === true,
+            description: str(requestBody['description']),
+            type: describeSchema(schema),
+            schema: refs.resolve(schema ?? null),
+            deprecated: false,
+            content_type: contentType,
+          });
+        }
+      }
+
+      const operationResponses = isObject(operation['responses']) ? operation['responses'] : {};
+      for (const [status, rawResponse] of Object.entries(operationResponses)) {
+        const response = refs.deref(rawResponse);
+        if (!isObject(response)) continue;
+        const content = isObject(response['content']) ? response['content'] : {};
+        const firstMedia = Object.values(content)[0];
+        const schema = isObject(firstMedia) ? firstMedia['schema'] : undefined;
+        responses.push({
+          ...location,
+          status,
+          description: str(response['description']),
+          content_types: Object.keys(content),
+          type: describeSchema(schema),
+          schema: refs.resolve(schema ?? null),
+        });
+      }
+    }
+  }
+
+  const schemas: QueryResult = [];
+  const properties: QueryResult = [];
+  const components = isObject(document['components']) ? document['components'] : {};
+  const componentSchemas = isObject(components['schemas']) ? components['schemas'] : {};
+  for (const [name, rawSchema] of Object.entries(componentSchemas)) {
+    const schema = refs.deref(rawSchema);
+    if (!isObject(schema)) continue;
+    const required = Array.isArray(schema['required']) ? schema['required'] : [];
+    const schemaProperties = isObject(schema['properties']) ? schema['properties'] : {};
+
+    schemas.push({
+      name,
+      type: describeSchema(schema),
+      description: str(schema['description']),
+      required_properties: required,
+      deprecated: schema['deprecated'] === true,
+      schema: refs.resolve(schema),
+    });
+
+    for (const [property, rawProperty] of Object.entries(schemaProperties)) {
+      const resolved = refs.deref(rawProperty);
+      const details = isObject(resolved) ? resolved : {};
+      properties.push({
+        parent: name,
+        name: property,
+        type: describeSchema(rawProperty),
+        required: required.includes(property),
+        description: str(details['description']),
+        nullable: details['nullable'] === true,
+        enum: Array.isArray(details['enum']) ? details['enum'] : null,
+        example: details['example'] ?? null,
+        deprecated: details['deprecated'] === true,
+      });
+    }
+  }
+
+  const info = isObject(document['info']) ? document['info'] : {};
+  return {
+    operations,
+    parameters,
+    responses,
+    schemas,
+    properties,
+    info: [
+      {
+        title: str(info['title']),
+        version: str(info['version']),
+        description: str(info['description']),
+        openapi: str(document['openapi']),
+      },
+    ],
+  };
+}
+
+export class OpenApiDatasource implements Datasource {
+  readonly type = 'openapi';
+  private filePath: string;
+  private tables: LazyTables<OpenApiTable>;
+
+  constructor(config: DatasourceConfig) {
+    if (!config.path) {
+      throw new Error('OpenAPI datasource requires "path" configuration');
+    }
+    const table = config.table ?? 'operations';
+    if (!(OPENAPI_TABLES as readonly string[]).includes(table)) {
+      throw new Error(
+        `OpenAPI datasource "table" must be one of: ${OPENAPI_TABLES.join(', ')} (got "${table}")`
+      );
+    }
+
+    this.filePath = config.path;
+    // All tables come from one parse
+    this.tables = new LazyTables('OpenAPI', OPENAPI_TABLES, table as OpenApiTable, () =>
+      this.readTables()
+    );
+  }
+
+  private async readTables(): Promise<Record<OpenApiTable, QueryResult>> {
+    const content = await readFile(this.filePath, { encoding: 'utf-8' });
+    // YAML is a superset of JSON
+    const document = yaml.load(content);
+    if (!isObject(document) || typeof document['openapi'] !== 'string') {
+      throw new Error(`OpenAPI datasource: not an OpenAPI 3.x document: ${this.filePath}`);
+    }
+    return readDocument(document);
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    return this.tables.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return this.tables.getAll();
+  }
+
+  async close(): Promise<void> {
+    await this.tables.close();
+  }
+}
+
+export function createOpenApiDatasource(config: DatasourceConfig): OpenApiDatasource {
+  return new OpenApiDatasource(config);
+}
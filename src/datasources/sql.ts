@@ -0,0 +1,164 @@
+/**
+ * SQL Datasource
+ * Join other datasources as tables of one in-memory SQLite database
+ *
+ * @example
+ * ```yaml
+ * datasources:
+ *   catalog:
+ *     type: sql
+ *     sources: [endpoints, owners, schema_db]
+ *     views:
+ *       endpoint_owners: |
+ *         SELECT e.path, o.team FROM endpoints e JOIN owners o ON o.service = e.service
+ * ```
+ */
+
+import { existsSync } from 'node:fs';
+import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { InMemoryDatabase } from './memory-db.js';
+import { createDatasource, getDatasourcePaths } from './index.js';
+
+/**
+ * Resolve `sources` to datasource configs by table name
+ * (names refer to other configured datasources; objects are inline configs)
+ */
+export function resolveSqlSources(
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig>
+): Record<string, DatasourceConfig> {
+  const sources = config.sources;
+  if (!sources || typeof sources !== 'object') {
+    throw new Error('SQL datasource requires "sources" configuration');
+  }
+
+  const entries: [string, unknown][] = Array.isArray(sources)
+    ? sources.map((name): [string, unknown] => [String(name), name])
+    : Object.entries(sources);
+
+  const resolved: Record<string, DatasourceConfig> = {};
+  for (const [table, source] of entries) {
+    const sourceConfig = typeof source === 'string' ? datasources[source] : source;
+    if (!sourceConfig || typeof sourceConfig !== 'object') {
+      throw new Error(`SQL datasource source "${String(source)}" is not a configured datasource`);
+    }
+    if ((sourceConfig as DatasourceConfig).type === 'sql') {
+      throw new Error(`SQL datasource source "${table}" cannot be another sql datasource`);
+    }
+    resolved[table] = sourceConfig as DatasourceConfig;
+  }
+  return resolved;
+}
+
+/**
+ * Get files read by the sources of a SQL datasource
+ */
+export function getSqlDatasourcePaths(
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig>
+): string[] {
+  let sources: Record<string, DatasourceConfig>;
+  try {
+    sources = resolveSqlSources(config, datasources);
+  } catch {
+    return [];
+  }
+  return Object.values(sources).flatMap((source) => getDatasourcePaths(source, datasources));
+}
+
+export class SqlDatasource implements Datasource {
+  readonly type = 'sql';
+  private sources: Record<string, DatasourceConfig>;
+  private datasources: Record<string, DatasourceConfig>;
+  private views: Record<string, string>;
+  private queryString?: string;
+  private database: Promise<InMemoryDatabase> | null = null;
+
+  constructor(config: DatasourceConfig, datasources: Record<string, DatasourceConfig> = {}) {
+    this.sources = resolveSqlSources(config, datasources);
+    this.datasources = datasources;
+    this.queryString = config.query;
+
+    const views = config.views ?? {};
+    if (typeof views !== 'object' || Array.isArray(views)) {
+      throw new Error('SQL datasource "views" must map view names to SELECT statements');
+    }
+    this.views = {};
+    for (const [name, sql] of Object.entries(views)) {
+      if (typeof sql !== 'string') {
+        throw new Error(`SQL datasource view "${name}" must be a SELECT statement`);
+      }
+      this.views[name] = sql;
+    }
+  }
+
+  /**
+   * Build the database once: SQLite sources are attached (tables become
+   * `<name>.<table>`), other sources are loaded with getAll() into table `<name>`
+   */
+  private loadDatabase(): Promise<InMemoryDatabase> {
+    this.database ??= this.buildDatabase().catch((error: unknown) => {
+      this.database = null;
+      throw error;
+    });
+    return this.database;
+  }
+
+  private async buildDatabase(): Promise<InMemoryDatabase> {
+    const database = new InMemoryDatabase('SQL');
+    try {
+      for (const [table, source] of Object.entries(this.sources)) {
+        if (source.type === 'sqlite') {
+          if (!source.path || !existsSync(source.path)) {
+            throw new Error(`SQL datasource source "${table}": file not found: ${source.path ?? ''}`);
+          }
+          database.attach(table, source.path);
+          continue;
+        }
+
+        const datasource = createDatasource(source, this.datasources);
+        try {
+          database.addTable(table, await datasource.getAll(), {
+            numericStrings: source.type === 'csv',
+          });
+        } finally {
+          await datasource.close();
+        }
+      }
+
+      for (const [name, sql] of Object.entries(this.views)) {
+        database.createView(name, sql);
+      }
+      database.setReadOnly();
+      return database;
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    const database = await this.loadDatabase();
+    return database.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    if (!this.queryString) {
+      throw new Error('No query defined for this datasource. Use query() method instead.');
+    }
+    return this.query(this.queryString);
+  }
+
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = null;
+    (await database?.catch(() => null))?.close();
+  }
+}
+
+export function createSqlDatasource(
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig> = {}
+): SqlDatasource {
+  return new SqlDatasource(config, datasources);
+}
@@ -0,0 +1,301 @@
+/**
+ * TypeScript Datasource
+ * Exported declarations of TypeScript sources (via the TypeScript compiler API)
+ * for API reference tables
+ */
+
+import { createRequire } from 'node:module';
+import { dirname, join, relative, resolve } from 'node:path';
+import { globSync } from 'glob';
+import type * as TS from 'typescript';
+import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { LazyTables } from './memory-db.js';
+
+/**
+ * Tables provided by the typescript datasource
+ */
+export const TYPESCRIPT_TABLES = ['exports', 'members'] as const;
+
+export type TypeScriptTable = (typeof TYPESCRIPT_TABLES)[number];
+
+let typescript: typeof TS | null = null;
+
+/**
+ * Load the TypeScript compiler (from the project first, then next to embedoc)
+ */
+function loadTypeScript(): typeof TS {
+  if (typescript) {
+    return typescript;
+  }
+  for (const base of [join(process.cwd(), 'package.json'), import.meta.url]) {
+    try {
+      typescript = createRequire(base)('typescript') as typeof TS;
+      return typescript;
+    } catch {
+      // Try next location
+    }
+  }
+  throw new Error('TypeScript datasource requires the "typescript" package (npm install -D typescript)');
+}
+
+/**
+ * Source files and compiler options from `tsconfig` or `pattern`
+ */
+function resolveSourceFiles(
+  ts: typeof TS,
+  config: DatasourceConfig
+): { fileNames: string[]; options: TS.CompilerOptions } {
+  if (config.tsconfig) {
+    const configPath = resolve(config.tsconfig);
+    const read = ts.readConfigFile(configPath, (path) => ts.sys.readFile(path));
+    if (read.error) {
+      throw new Error(
+        `TypeScript datasource: ${ts.flattenDiagnosticMessageText(read.error.messageText, '\n')}`
+      );
+    }
+    const parsed = ts.parseJsonConfigFileContent(read.config, ts.sys, dirname(configPath));
+    return { fileNames: parsed.fileNames, options: { ...parsed.options, noEmit: true } };
+  }
+
+  const fileNames = globSync(config.pattern ?? '', {
+    nodir: true,
+    absolute: true,
+    ignore: ['**/node_modules/**'],
+  });
+  return {
+    fileNames: fileNames.sort(),
+    options: { allowJs: true, noEmit: true, skipLibCheck: true },
+  };
+}
+
+/**
+ * Files read by a typescript datasource (tsconfig and source files)
+ */
+export function getTypeScriptDatasourcePaths(config: DatasourceConfig): string[] {
+  let fileNames: string[] = [];
+  try {
+    fileNames = resolveSourceFiles(loadTypeScript(), config).fileNames;
+  } catch {
+    // Report errors when the datasource is used
+  }
+  return config.tsconfig ? [config.tsconfig, ...fileNames] : fileNames;
+}
+
+/**
+ * Path relative to the working directory
+ */
+function toRelativePath(fileName: string): string {
+  return relative(process.cwd(), fileName).split('\\').join('/');
+}
+
+/**
+ * Collapse whitespace (multi-line declarations become one line)
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get declaration kind name
+ */
+function getKind(ts: typeof TS, decl: TS.Declaration): string {
+  if (ts.isFunctionDeclaration(decl) || ts.isMethodDeclaration(decl) || ts.isMethodSignature(decl)) {
+    return ts.isFunctionDeclaration(decl) ? 'function' : 'method';
+  }
+  if (ts.isClassDeclaration(decl)) return 'class';
+  if (ts.isInterfaceDeclaration(decl)) return 'interface';
+  if (ts.isTypeAliasDeclaration(decl)) return 'type';
+  if (ts.isEnumDeclaration(decl)) return 'enum';
+  if (ts.isModuleDeclaration(decl)) return 'namespace';
+  if (ts.isVariableDeclaration(decl)) {
+    const init = decl.initializer;
+    return init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) ? 'function' : 'variable';
+  }
+  if (ts.isPropertySignature(decl) || ts.isPropertyDeclaration(decl)) return 'property';
+  if (ts.isGetAccessor(decl) || ts.isSetAccessor(decl)) return 'accessor';
+  return 'variable';
+}
+
+/**
+ * Get declaration text before its body (e.g. `interface Foo<T> extends Bar`)
+ */
+function getHeader(decl: TS.Declaration, bodyStart: number | undefined): string {
+  const text = decl.getText();
+  const header = bodyStart !== undefined ? text.slice(0, bodyStart - decl.getStart()) : text;
+  return collapseWhitespace(
+    header
+      .replace(/^(?:export\s+)?(?:default\s+)?(?:declare\s+)?/, '')
+      .replace(/\s*[{;]$/, '')
+  );
+}
+
+/**
+ * Get signature text for a symbol
+ */
+function getSignature(
+  ts: typeof TS,
+  checker: TS.TypeChecker,
+  name: string,
+  symbol: TS.Symbol,
+  decl: TS.Declaration
+): string {
+  if (
+    ts.isClassDeclaration(decl) ||
+    ts.isInterfaceDeclaration(decl) ||
+    ts.isEnumDeclaration(decl)
+  ) {
+    return getHeader(decl, decl.members.pos);
+  }
+  if (ts.isModuleDeclaration(decl)) {
+    return getHeader(decl, decl.body?.pos);
+  }
+  if (ts.isTypeAliasDeclaration(decl)) {
+    return getHeader(decl, undefined);
+  }
+
+  const type = checker.getTypeOfSymbolAtLocation(symbol, decl);
+  const signatures = type.getCallSignatures();
+  if (signatures.length > 0 && getKind(ts, decl) !== 'variable' && getKind(ts, decl) !== 'property') {
+    return signatures.map((sig) => `${name}${checker.signatureToString(sig)}`).join('\n');
+  }
+  const optional = symbol.flags & ts.SymbolFlags.Optional ? '?' : '';
+  return `${name}${optional}: ${checker.typeToString(type)}`;
+}
+
+/**
+ * Get JSDoc summary (first paragraph), description and tags
+ */
+function getDocs(
+  ts: typeof TS,
+  checker: TS.TypeChecker,
+  symbol: TS.Symbol
+): Record<string, unknown> {
+  const description = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+  const tags = symbol.getJsDocTags(checker).map((tag) => ({
+    name: tag.name,
+    text: ts.displayPartsToString(tag.text).trim(),
+  }));
+  return {
+    summary: collapseWhitespace(description.split(/\n\s*\n/)[0] ?? ''),
+    description,
+    tags,
+    deprecated: tags.some((tag) => tag.name === 'deprecated'),
+  };
+}
+
+/**
+ * Get source location of a declaration
+ */
+function getLocation(decl: TS.Declaration): { file: string; line: number } {
+  const sourceFile = decl.getSourceFile();
+  const { line } = sourceFile.getLineAndCharacterOfPosition(decl.getStart());
+  return { file: toRelativePath(sourceFile.fileName), line: line + 1 };
+}
+
+export class TypeScriptDatasource implements Datasource {
+  readonly type = 'typescript';
+  private config: DatasourceConfig;
+  private tables: LazyTables<TypeScriptTable>;
+
+  constructor(config: DatasourceConfig) {
+    if (!config.tsconfig && !config.pattern) {
+      throw new Error('TypeScript datasource requires "tsconfig" or "pattern" configuration');
+    }
+    const table = config.table ?? 'exports';
+    if (!(TYPESCRIPT_TABLES as readonly string[]).includes(table)) {
+      throw new Error(
+        `TypeScript datasource "table" must be one of: ${TYPESCRIPT_TABLES.join(', ')} (got "${table}")`
+      );
+    }
+
+    this.config = config;
+    // All tables come from one program
+    this.tables = new LazyTables('TypeScript', TYPESCRIPT_TABLES, table as TypeScriptTable, () =>
+      this.readTables()
+    );
+  }
+
+  private readTables(): Record<TypeScriptTable, QueryResult> {
+    const ts = loadTypeScript();
+    const { fileNames, options } = resolveSourceFiles(ts, this.config);
+    const program = ts.createProgram(fileNames, options);
+    const checker = program.getTypeChecker();
+
+    const exports: QueryResult = [];
+    const members: QueryResult = [];
+
+    for (const fileName of fileNames) {
+      const sourceFile = program.getSourceFile(fileName);
+      const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+      if (!moduleSymbol) {
+        // Not a module (no imports/exports)
+        continue;
+      }
+      const modulePath = toRelativePath(fileName);
+
+      for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+        const symbol =
+          exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+        const decl = symbol.declarations?.[0];
+        if (!decl) {
+          continue;
+        }
+
+        const name = exported.getName();
+        const kind = getKind(ts, decl);
+        exports.push({
+          name,
+          kind,
+          module: modulePath,
+          ...getLocation(decl),
+          signature: getSignature(ts, checker, name, symbol, decl),
+          ...getDocs(ts, checker, symbol),
+        });
+
+        if (kind !== 'class' && kind !== 'interface') {
+          continue;
+        }
+        const type = checker.getDeclaredTypeOfSymbol(symbol);
+        for (const member of checker.getPropertiesOfType(type)) {
+          const memberDecl = member.declarations?.[0];
+          if (
+            !memberDecl ||
+            member.getName().startsWith('#') ||
+            ts.getCombinedModifierFlags(memberDecl) &
+              (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)
+          ) {
+            continue;
+          }
+          members.push({
+            parent: name,
+            name: member.getName(),
+            kind: getKind(ts, memberDecl),
+            module: modulePath,
+            ...getLocation(memberDecl),
+            signature: getSignature(ts, checker, member.getName(), member, memberDecl),
+            optional: (member.flags & ts.SymbolFlags.Optional) !== 0,
+            ...getDocs(ts, checker, member),
+          });
+        }
+      }
+    }
+
+    return { exports, members };
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
+    return this.tables.query(sql, params);
+  }
+
+  async getAll(): Promise<QueryResult> {
+    return this.tables.getAll();
+  }
+
+  async close(): Promise<void> {
+    await this.tables.close();
+  }
+}
+
+export function createTypeScriptDatasource(config: DatasourceConfig): TypeScriptDatasource {
+  return new TypeScriptDatasource(config);
+}
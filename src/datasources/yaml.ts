@@ -5,68 +5,59 @@
 import { readFile } from 'node:fs/promises';
 import yaml from 'js-yaml';
 import type { Datasource, DatasourceConfig, QueryResult } from '../types/index.js';
+import { LazyTables, DEFAULT_TABLE, getNestedTables } from './memory-db.js';
 
 export class YamlDatasource implements Datasource {
   readonly type = 'yaml';
-  private data: QueryResult | null = null;
+  private tables: LazyTables<string>;
   private filePath: string;
 
-  constructor(config: DatasourceConfig) {
+  constructor(config: DatasourceConfig, name?: string) {
     if (!config.path) {
       throw new Error('YAML datasource requires "path" configuration');
     }
 
     this.filePath = config.path;
+    const table = config.table ?? DEFAULT_TABLE;
+    this.tables = new LazyTables('YAML', [table], table, () => this.readTables(table), {
+      alias: name,
+    });
   }
 
-  private async loadData(): Promise<QueryResult> {
-    if (this.data !== null) {
-      return this.data;
-    }
-
+  private async readTables(table: string): Promise<Record<string, QueryResult>> {
     const content = await readFile(this.filePath, { encoding: 'utf-8' });
     const parsed = yaml.load(content);
 
     // Use as-is if array, wrap in array if object
+    let data: QueryResult;
     if (Array.isArray(parsed)) {
-      this.data = parsed as QueryResult;
+      data = parsed as QueryResult;
     } else if (typeof parsed === 'object' && parsed !== null) {
-      this.data = [parsed as Record<string, unknown>];
+      data = [parsed as Record<string, unknown>];
     } else {
       throw new Error('YAML file must contain an array or object');
     }
 
-    return this.data;
+    return { ...getNestedTables(parsed), [table]: data };
   }
 
   async query(sql: string, params: unknown[] = []): Promise<QueryResult> {
-    // YAML does not support SQL queries
-    // Simple filtering only
-    const data = await this.loadData();
-
-    // Only supports simple WHERE column = value
-    const whereMatch = sql.match(/WHERE\s+(\w+)\s*=\s*\?/i);
-    if (whereMatch && params.length > 0) {
-      const column = whereMatch[1];
-      const value = params[0];
-      return data.filter((row) => {
-        const rowValue = row[column ?? ''];
-        return rowValue === value || String(rowValue) === String(value);
-      });
-    }
-
-    return data;
+    return this.tables.query(sql, params);
   }
 
   async getAll(): Promise<QueryResult> {
-    return this.loadData();
+    return this.tables.getAll();
   }
 
   async close(): Promise<void> {
-    this.data = null;
+    await this.tables.close();
   }
 }
 
-export function createYamlDatasource(config: DatasourceConfig): YamlDatasource {
-  return new YamlDatasource(config);
+export function createYamlDatasource(
+  config: DatasourceConfig,
+  _datasources?: Record<string, DatasourceConfig>,
+  name?: string
+): YamlDatasource {
+  return new YamlDatasource(config, name);
 }
@@ -27,6 +27,16 @@ export type {
    */
   EmbedDefinition,
 
+  /**
+   * Schema for an embed parameter (see {@link EmbedDefinition.params}).
+   */
+  EmbedParamSchema,
+
+  /**
+   * Embed parameter type.
+   */
+  EmbedParamType,
+
   /**
    * Context object passed to the embed's render function.
    * Provides access to parameters, datasources, and helpers.
@@ -21,13 +21,22 @@ export type {
   CommentStyle,
   TargetConfig,
   GeneratorConfig,
+  TransformStep,
+  FilterOperators,
   DatasourceConfig,
   OutputConfig,
   GithubConfig,
   EmbedifyConfig,
   InlineDatasourceConfig,
+  DiagnosticsConfig,
+  CacheConfig,
+  ManualEditPolicy,
   // Markers
   ParsedMarker,
+  MarkerDiagnostic,
+  MarkerDiagnosticKind,
+  MarkerParseResult,
+  MarkerScanOptions,
   DetectedComment,
   // Datasources
   QueryResult,
@@ -38,10 +47,14 @@ export type {
   EmbedContext,
   EmbedResult,
   EmbedDefinition,
+  EmbedParamSchema,
+  EmbedParamType,
   DefineEmbedFn,
   // Frontmatter
   ParsedFrontmatter,
   // Results
+  MarkerResult,
+  AccessedDependencies,
   ProcessResult,
   GenerateResult,
   BuildResult,
@@ -49,16 +62,21 @@ export type {
 } from './types/index.js';
 
 // Core functions
-export { build, processFile } from './core/processor.js';
+export { build, processFile, formatDiagnostic } from './core/processor.js';
 export { generateAll, generateFromDatasource } from './core/generator.js';
+export { applyTransforms, validateTransforms, TRANSFORM_STEPS } from './core/transforms.js';
 export {
   parseMarkers,
+  parseMarkersWithDiagnostics,
+  flattenMarkers,
   parseFrontmatter,
   parseAttributes,
+  parseTypedAttributes,
   resolveVariables,
   getCommentStyle,
   guessCommentStyle,
   parseInlineDataMarkers,
+  getMarkerScanOptions,
   DEFAULT_COMMENT_STYLES,
 } from './core/parser.js';
 
@@ -73,8 +91,32 @@ export {
   parseInlineContent,
 } from './core/inline-datasource.js';
 export type { ParsedInlineData, ContentProcessingOptions, InlineDefinitionLocation } from './core/inline-datasource.js';
+export { createEmbedCatalog, renderEmbedCatalog } from './core/catalog.js';
+export type {
+  EmbedCatalogEntry,
+  EmbedCatalogParam,
+  EmbedCatalogFormat,
+  EmbedCatalogRenderOptions,
+} from './core/catalog.js';
+export {
+  findKeepRegions,
+  createKeepRegion,
+  mergeKeepRegions,
+  stripKeepRegions,
+} from './core/keep-regions.js';
+export type { KeepRegion, KeepRegionMergeResult } from './core/keep-regions.js';
 export { DependencyGraph } from './core/dependency.js';
-export type { DependencyType, DependencyNode } from './core/dependency.js';
+export type {
+  DependencyType,
+  DependencyNode,
+  DependencyGraphFormat,
+  DependencyGraphDatasource,
+  DependencyGraphEdge,
+  DependencyGraphJSON,
+} from './core/dependency.js';
+export { BuildCache, clearBuildCache, getCacheFile, DEFAULT_CACHE_DIR } from './core/cache.js';
+export { DependencyStore, getDependencyFile } from './core/dependency-store.js';
+export { findAffectedDocuments, getChangedFilesSince } from './core/affected.js';
 
 // Datasources
 export {
@@ -86,6 +128,25 @@ export {
   JsonDatasource,
   YamlDatasource,
   GlobDatasource,
+  SqlDatasource,
+  GitDatasource,
+  GIT_TABLES,
+  TypeScriptDatasource,
+  TYPESCRIPT_TABLES,
+  OpenApiDatasource,
+  OPENAPI_TABLES,
+  MarkdownDatasource,
+  registerDatasourceType,
+  unregisterDatasourceType,
+  getDatasourceTypes,
+  getDatasourcePaths,
+} from './datasources/index.js';
+export type {
+  DatasourceTypeDefinition,
+  DatasourceTypes,
+  GitTable,
+  TypeScriptTable,
+  OpenApiTable,
 } from './datasources/index.js';
 
 // Helpers
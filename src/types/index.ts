@@ -21,8 +21,62 @@ export interface TargetConfig {
   pattern: string;
   comment_style: string;
   exclude?: string[];
+  /** Ignore markers inside markdown code blocks and inline code (default: true for .md and .markdown files) */
+  skip_code_blocks?: boolean;
+  /** Policy for manually edited generated content (overrides the global setting) */
+  manual_edits?: ManualEditPolicy;
 }
 
+/**
+ * Policy for generated content that was edited by hand
+ * - overwrite: regenerate silently (default)
+ * - warn: regenerate and report a warning
+ * - keep: keep the edited content and report a warning
+ * - refuse: report an error and do not write the file
+ */
+export type ManualEditPolicy = 'overwrite' | 'warn' | 'keep' | 'refuse';
+
+/**
+ * Filter operators for a field (`filter: { calls: { gt: 100 } }`)
+ * Numeric strings are compared as numbers
+ */
+export interface FilterOperators {
+  eq?: unknown;
+  ne?: unknown;
+  gt?: unknown;
+  gte?: unknown;
+  lt?: unknown;
+  lte?: unknown;
+  in?: unknown[];
+  not_in?: unknown[];
+  /** Substring (strings) or element (arrays) */
+  contains?: unknown;
+  /** Regular expression */
+  matches?: string;
+  /** Field is present and not null/empty */
+  exists?: boolean;
+}
+
+/**
+ * Declarative transform step (each step has exactly one key)
+ *
+ * - filter: keep records matching all field conditions (value or operators)
+ * - sort: field names, `-` prefix for descending
+ * - pick: keep only these fields
+ * - rename: old name -> new name
+ * - group_by: one record per value (`{ <field>, count, items }`)
+ * - limit: keep the first N records
+ * - computed: add fields from `{field}` templates
+ */
+export type TransformStep =
+  | { filter: Record<string, unknown | FilterOperators> }
+  | { sort: string | string[] }
+  | { pick: string[] }
+  | { rename: Record<string, string> }
+  | { group_by: string }
+  | { limit: number }
+  | { computed: Record<string, string> };
+
 /**
  * Generator configuration
  */
@@ -30,18 +84,54 @@ export interface GeneratorConfig {
   output_path: string;
   template: string;
   overwrite?: boolean;
+  /** Transforms applied to the datasource records for this generator only */
+  transforms?: TransformStep[];
 }
 
 /**
  * Datasource configuration
  */
 export interface DatasourceConfig {
-  type: 'sqlite' | 'csv' | 'json' | 'yaml' | 'glob';
+  /** Built-in type, or a type registered with `registerDatasourceType` */
+  type:
+    | 'sqlite'
+    | 'csv'
+    | 'json'
+    | 'yaml'
+    | 'glob'
+    | 'sql'
+    | 'git'
+    | 'typescript'
+    | 'openapi'
+    | 'markdown'
+    | (string & {});
   path?: string;
   pattern?: string;
   query?: string;
   encoding?: string;
+  /**
+   * Table name for SQL queries on CSV/JSON/YAML/Glob/Markdown datasources (default: data);
+   * for git, typescript and openapi, the table returned by `getAll()`
+   */
+  table?: string;
+  /** TypeScript: tsconfig.json whose files are read (alternative to `pattern`) */
+  tsconfig?: string;
+  /** Git: revision to read history from (default: HEAD) */
+  ref?: string;
+  /** Git: maximum number of rows in the commits table */
+  max_count?: number;
+  /**
+   * Datasources joined by a `sql` datasource: names of configured datasources,
+   * or a map from table name to datasource name (or inline config)
+   */
+  sources?: string[] | Record<string, string | DatasourceConfig>;
+  /** Views created by a `sql` datasource (view name -> SELECT statement) */
+  views?: Record<string, string>;
+  /** Transforms applied to `getAll()` results (not to `query()`) */
+  transforms?: TransformStep[];
   generators?: GeneratorConfig[];
+  /** Options for custom datasource types (registered with `registerDatasourceType`) */
+  options?: Record<string, unknown>;
 }
 
 /**
@@ -79,6 +169,24 @@ export interface InlineDatasourceConfig {
   stripPatterns?: string[];
 }
 
+/**
+ * Marker diagnostics configuration
+ */
+export interface DiagnosticsConfig {
+  /** Report marker diagnostics as warnings or errors (default: warn) */
+  level?: 'warn' | 'error';
+}
+
+/**
+ * Build cache configuration
+ */
+export interface CacheConfig {
+  /** Enable/disable the build cache (default: true) */
+  enabled?: boolean;
+  /** Cache directory (default: .embedoc) */
+  dir?: string;
+}
+
 /**
  * Main configuration file
  */
@@ -93,6 +201,16 @@ export interface EmbedifyConfig {
   github?: GithubConfig;
   /** Inline datasource configuration */
   inline_datasource?: InlineDatasourceConfig;
+  /** Marker diagnostics configuration */
+  diagnostics?: DiagnosticsConfig;
+  /** Number of files processed in parallel by build (default: 1) */
+  concurrency?: number;
+  /** Modules that export custom datasource types (`datasourceTypes`) */
+  datasource_modules?: string[];
+  /** Build cache configuration */
+  cache?: CacheConfig;
+  /** Policy for manually edited generated content (default: overwrite) */
+  manual_edits?: ManualEditPolicy;
 }
 
 // =============================================================================
@@ -111,12 +229,71 @@ export interface ParsedMarker {
   templateName: string;
   /** Parameters (attribute values) */
   params: Record<string, string>;
+  /** Parameters with typed values (JSON literals, bare flags as `true`) */
+  typedParams: Record<string, unknown>;
   /** Existing content (between markers) */
   existingContent: string;
   /** Full start marker line */
   startMarkerLine: string;
   /** Full end marker line */
   endMarkerLine: string;
+  /** Line number of the start marker (1-indexed) */
+  line: number;
+  /** Column of the start marker (1-indexed) */
+  column: number;
+  /** Markers nested inside this marker (indices relative to the same content) */
+  children: ParsedMarker[];
+  /** Hash of the generated content recorded in the end marker (`hash` attribute) */
+  generatedHash?: string;
+}
+
+/**
+ * Marker scanning options
+ */
+export interface MarkerScanOptions {
+  /** Ignore markers inside markdown code blocks and inline code (default: false) */
+  skipCodeBlocks?: boolean;
+}
+
+/**
+ * Marker diagnostic kind
+ */
+export type MarkerDiagnosticKind =
+  | 'unterminated_start'
+  | 'orphan_end'
+  | 'unknown_embed'
+  | 'malformed_attribute'
+  | 'mismatched_nesting'
+  | 'invalid_param'
+  | 'manual_edit'
+  | 'dropped_keep_region';
+
+/**
+ * Problem found in a marker (reported with file and position)
+ */
+export interface MarkerDiagnostic {
+  /** Diagnostic kind */
+  kind: MarkerDiagnosticKind;
+  /** Human readable message */
+  message: string;
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column (1-indexed) */
+  column: number;
+  /** File path (set by processor) */
+  file?: string;
+  /** Severity (set by processor from `diagnostics.level`) */
+  severity?: 'warning' | 'error';
+}
+
+/**
+ * Markers parsed from content, with diagnostics
+ */
+export interface MarkerParseResult {
+  /** Parsed top-level markers (nested markers are in `children`) */
+  markers: ParsedMarker[];
+  /** Problems found while parsing */
+  diagnostics: MarkerDiagnostic[];
 }
 
 /**
@@ -159,11 +336,19 @@ export type QueryResult = Record<string, unknown>[];
  * from marker attributes or frontmatter.
  *
  * Supported datasource types:
- * - `sqlite` - SQLite database (supports parameterized queries)
- * - `csv` - CSV files (use `getAll()`)
- * - `json` - JSON files (use `getAll()`)
- * - `yaml` - YAML files (use `getAll()`)
- * - `glob` - File listings (use `getAll()`)
+ * - `sqlite` - SQLite database
+ * - `csv` - CSV files
+ * - `json` - JSON files
+ * - `yaml` - YAML files
+ * - `glob` - File listings
+ * - `sql` - Joins of other datasources
+ * - `git` - Commits, tags, authors and file history of a local repository
+ * - `typescript` - Exported declarations of TypeScript sources
+ * - `openapi` - Operations, parameters, responses and schemas of an OpenAPI 3.x document
+ * - `markdown` - Frontmatter, headings and word counts of Markdown documents
+ *
+ * All of them support parameterized SQL queries; CSV/JSON/YAML/Glob/Markdown rows
+ * are loaded into an in-memory SQLite table named `data`.
  *
  * @example
  * ```typescript
@@ -184,7 +369,8 @@ export type QueryResult = Record<string, unknown>[];
 export interface Datasource {
   /**
    * Datasource type identifier.
-   * One of: 'sqlite', 'csv', 'json', 'yaml', 'glob', 'inline'
+   * One of: 'sqlite', 'csv', 'json', 'yaml', 'glob', 'sql', 'git', 'typescript',
+   * 'openapi', 'markdown', 'inline', or a custom type registered with `registerDatasourceType`
    */
   readonly type: string;
 
@@ -194,7 +380,9 @@ export interface Datasource {
    * **SQLite**: Execute SQL with parameters from marker attributes or frontmatter.
    * This allows dynamic filtering based on the document context.
    *
-   * **CSV/JSON/YAML/Glob**: Parameters are ignored; use `getAll()` instead.
+   * **CSV/JSON/YAML/Glob/Markdown**: Rows are queried as the table `data` (or `table` in config)
+   * of an in-memory SQLite database; `FROM` may be omitted.
+   * JSON/YAML top-level arrays of objects are also available as tables by key.
    *
    * @param sql - SQL query string with `?` placeholders for parameters
    * @param params - Values to bind to the placeholders (prevents SQL injection)
@@ -221,8 +409,8 @@ export interface Datasource {
   /**
    * Get all data from the datasource.
    *
-   * Returns all records without filtering. Recommended for
-   * CSV, JSON, YAML, and Glob datasources.
+   * Returns all records without filtering, as loaded from the source
+   * (CSV values stay strings).
    *
    * @returns Promise resolving to an array of all records
    *
@@ -247,8 +435,14 @@ export interface Datasource {
 
 /**
  * Datasource factory
+ * Receives the datasource's config and all configured datasources
  */
-export type DatasourceFactory = (config: DatasourceConfig) => Promise<Datasource>;
+export type DatasourceFactory = (
+  config: DatasourceConfig,
+  datasources: Record<string, DatasourceConfig>,
+  /** Name of the datasource in `datasources` (absent for inline configs, e.g. `sql` sources) */
+  name?: string
+) => Datasource | Promise<Datasource>;
 
 // =============================================================================
 // Embeds (Templates)
@@ -432,6 +626,7 @@ export interface MarkdownHelper {
  * - Configured datasources
  * - Markdown generation helpers
  * - Current file path
+ * - Dependency-tracked file access
  *
  * @example
  * ```typescript
@@ -474,6 +669,23 @@ export interface EmbedContext {
    */
   params: Record<string, string>;
 
+  /**
+   * Parameters from the marker attributes with typed values.
+   *
+   * Quoted values are strings, unquoted values are parsed as JSON literals
+   * and bare attributes are `true`. In `ctx.params` the same values are
+   * strings (JSON text for non-string values).
+   *
+   * @example
+   * ```typescript
+   * // Marker: <!--@embedoc:table_columns id="users" columns=["id","name"] limit=10 compact-->
+   * const columns = ctx.typedParams['columns'] as string[]; // ["id", "name"]
+   * const limit = ctx.typedParams['limit'] as number;       // 10
+   * const compact = ctx.typedParams['compact'] === true;    // true
+   * ```
+   */
+  typedParams: Record<string, unknown>;
+
   /**
    * Frontmatter data from the document.
    *
@@ -553,6 +765,69 @@ export interface EmbedContext {
    * ```
    */
   existingContent?: string;
+
+  /**
+   * Create a keep region: hand-written content inside the generated output.
+   *
+   * Returns the keep markers (in the file's comment style) around
+   * `defaultContent`. On re-rendering, the content of a region with the
+   * same name in the existing content is carried over verbatim.
+   *
+   * @example
+   * ```typescript
+   * return {
+   *   content: ctx.markdown.table(headers, rows) + '\n\n' +
+   *     ctx.keepRegion('notes', '_Add notes here._'),
+   * };
+   * // <!--@embedoc:keep name="notes"-->
+   * // _Add notes here._
+   * // <!--@embedoc:keep-end-->
+   * ```
+   */
+  keepRegion: (name: string, defaultContent?: string) => string;
+
+  /**
+   * Resolve a path for this document.
+   *
+   * Relative paths resolve against the document's directory, paths starting
+   * with `/` against the project root (the working directory). Paths outside
+   * the project root are rejected.
+   *
+   * @example
+   * ```typescript
+   * // In docs/guide.md
+   * ctx.resolvePath('./images/logo.png'); // <root>/docs/images/logo.png
+   * ctx.resolvePath('/src/index.ts');     // <root>/src/index.ts
+   * ```
+   */
+  resolvePath: (path: string) => string;
+
+  /**
+   * Read a text file (UTF-8), resolved like `resolvePath`.
+   *
+   * The file is recorded as a dependency of the document, so `watch`
+   * rebuilds the document and the build cache invalidates it when the file changes.
+   *
+   * @example
+   * ```typescript
+   * const source = await ctx.readFile(ctx.params['file']!);
+   * return { content: ctx.markdown.codeBlock(source, 'typescript') };
+   * ```
+   */
+  readFile: (path: string) => Promise<string>;
+
+  /**
+   * List files matching a glob pattern, resolved like `resolvePath`.
+   *
+   * Returns sorted absolute paths inside the project root; matched files are
+   * recorded as dependencies of the document.
+   *
+   * @example
+   * ```typescript
+   * const examples = await ctx.glob('./examples/*.ts');
+   * ```
+   */
+  glob: (pattern: string) => Promise<string[]>;
 }
 
 /**
@@ -610,12 +885,21 @@ export interface EmbedResult {
  * ```
  */
 export interface EmbedDefinition {
+  /**
+   * Short description of what the embed renders.
+   *
+   * Shown by `embedoc embeds` and in the generated embed catalog.
+   */
+  description?: string;
+
   /**
    * List of datasource names this embed depends on.
    *
    * Used for dependency tracking in incremental builds.
    * When a datasource changes, all documents using embeds
-   * that depend on it will be rebuilt.
+   * that depend on it will be rebuilt. Datasources accessed through
+   * `ctx.datasources` (and files read with `ctx.readFile`) during a build
+   * are also tracked automatically (recorded per document in `.embedoc/dependencies.json`).
    *
    * @example
    * ```typescript
@@ -624,6 +908,25 @@ export interface EmbedDefinition {
    */
   dependsOn?: string[];
 
+  /**
+   * Parameter schema.
+   *
+   * When set, parameters are validated before `render` is called.
+   * Values are coerced to the declared type and defaults are applied;
+   * `ctx.typedParams` receives the coerced values. Invalid parameters are
+   * reported as `invalid_param` diagnostics and the marker is not rendered.
+   *
+   * @example
+   * ```typescript
+   * params: {
+   *   id: { type: 'string', required: true, description: 'Table name' },
+   *   limit: { type: 'integer', default: 10 },
+   *   format: { enum: ['table', 'list'], default: 'table' },
+   * }
+   * ```
+   */
+  params?: Record<string, EmbedParamSchema>;
+
   /**
    * Render function that generates the embed content.
    *
@@ -636,6 +939,33 @@ export interface EmbedDefinition {
   render(ctx: EmbedContext): Promise<EmbedResult>;
 }
 
+/**
+ * Embed parameter type.
+ *
+ * - `string`: any scalar value, converted to a string
+ * - `number` / `integer`: numeric values (`limit=10` or `limit="10"`)
+ * - `boolean`: `true` / `false` (bare flags are `true`)
+ * - `array`: JSON arrays, or comma-separated strings (`columns="a,b"`)
+ * - `object`: JSON objects
+ */
+export type EmbedParamType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+/**
+ * Schema for a single embed parameter.
+ */
+export interface EmbedParamSchema {
+  /** Parameter type (default: `string`) */
+  type?: EmbedParamType;
+  /** Whether the parameter must be set (empty values count as not set) */
+  required?: boolean;
+  /** Default value when the parameter is not set */
+  default?: unknown;
+  /** Allowed values (compared after type coercion) */
+  enum?: readonly unknown[];
+  /** Human readable description */
+  description?: string;
+}
+
 /**
  * Helper function type for defining embeds.
  *
@@ -663,6 +993,34 @@ export interface ParsedFrontmatter {
 // Processing Results
 // =============================================================================
 
+/**
+ * Marker processing result
+ */
+export interface MarkerResult {
+  /** Embed name */
+  templateName: string;
+  /** Line number of the start marker (1-indexed) */
+  line: number;
+  /** Whether the regenerated block differs from the existing block */
+  changed: boolean;
+  /** Original block, from start marker to end marker (only set when changed) */
+  originalContent?: string;
+  /** Regenerated block, from start marker to end marker (only set when changed) */
+  newContent?: string;
+  /** Datasources and files the embed accessed while rendering */
+  dependencies?: AccessedDependencies;
+}
+
+/**
+ * Dependencies recorded while rendering markers
+ */
+export interface AccessedDependencies {
+  /** Names of configured datasources accessed through `ctx.datasources` */
+  datasources: string[];
+  /** Files read or listed through `ctx.readFile` and `ctx.glob` (absolute paths) */
+  files: string[];
+}
+
 /**
  * File processing result
  */
@@ -673,10 +1031,22 @@ export interface ProcessResult {
   success: boolean;
   /** Number of updated markers */
   markersUpdated: number;
+  /** Results for each rendered marker (in document order) */
+  markers: MarkerResult[];
+  /** Marker diagnostics (warnings and errors) */
+  diagnostics: MarkerDiagnostic[];
   /** Error (if any) */
   error?: Error;
   /** Whether changed */
   changed: boolean;
+  /** Original file content (only set when changed) */
+  originalContent?: string;
+  /** New file content before line ending conversion (only set when changed) */
+  newContent?: string;
+  /** Whether skipped because its inputs are unchanged (build cache) */
+  cached?: boolean;
+  /** Datasources and files accessed by all markers of the file (not set when skipped) */
+  dependencies?: AccessedDependencies;
 }
 
 /**
@@ -703,6 +1073,8 @@ export interface BuildResult {
   successFiles: number;
   /** Number of failed files */
   failedFiles: number;
+  /** Number of files skipped by the build cache */
+  cachedFiles: number;
   /** Total number of updated markers */
   totalMarkersUpdated: number;
   /** Results for each file */
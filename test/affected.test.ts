@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { writeFile, mkdir, mkdtemp, realpath, rm } from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { findAffectedDocuments, getChangedFilesSince } from '../src/core/affected.js';
+import { DependencyGraph } from '../src/core/dependency.js';
+import { DependencyStore } from '../src/core/dependency-store.js';
+import type { EmbedifyConfig, EmbedDefinition } from '../src/types/index.js';
+
+describe('findAffectedDocuments', () => {
+  let tempDir: string;
+  let config: EmbedifyConfig;
+  let embeds: Record<string, EmbedDefinition>;
+  let graph: DependencyGraph;
+
+  const render = async () => ({ content: '' });
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `embedoc-affected-test-${Date.now()}`);
+    await mkdir(path.join(tempDir, 'docs'), { recursive: true });
+    await writeFile(path.join(tempDir, 'docs', 'tables.md'), '<!--@embedoc:table_columns-->\n<!--@embedoc:end-->\n');
+    await writeFile(path.join(tempDir, 'docs', 'intro.md'), '<!--@embedoc:table_index-->\n<!--@embedoc:end-->\n');
+    await writeFile(path.join(tempDir, 'docs', 'plain.md'), '# No markers\n');
+
+    config = {
+      version: '1.0',
+      targets: [{ pattern: `${tempDir}/docs/*.md`, comment_style: 'html', exclude: ['**/draft.md'] }],
+      embeds_dir: path.join(tempDir, 'embeds'),
+      datasources: {
+        metadata_db: { type: 'sqlite', path: path.join(tempDir, 'data', 'sample.db') },
+      },
+    };
+    embeds = {
+      table_columns: { dependsOn: ['metadata_db'], render },
+      table_index: { dependsOn: [], render },
+    };
+    graph = new DependencyGraph(config, embeds);
+    await graph.build();
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find documents through datasources, embeds and documents', async () => {
+    expect(
+      await findAffectedDocuments(config, embeds, graph, [path.join(tempDir, 'data', 'sample.db')])
+    ).toEqual([path.join(tempDir, 'docs', 'tables.md')]);
+
+    expect(
+      await findAffectedDocuments(config, embeds, graph, [
+        path.join(tempDir, 'embeds', 'tableIndex.ts'),
+        path.join(tempDir, 'docs', 'plain.md'),
+      ])
+    ).toEqual([path.join(tempDir, 'docs', 'intro.md'), path.join(tempDir, 'docs', 'plain.md')]);
+  });
+
+  it('should treat shared embed files as affecting every document using an embed', async () => {
+    expect(
+      await findAffectedDocuments(config, embeds, graph, [path.join(tempDir, 'embeds', 'helpers.ts')])
+    ).toEqual([path.join(tempDir, 'docs', 'intro.md'), path.join(tempDir, 'docs', 'tables.md')]);
+  });
+
+  it('should treat embeds without dependsOn as using every datasource until a build records them', async () => {
+    await writeFile(path.join(tempDir, 'docs', 'report.md'), '<!--@embedoc:report-->\n<!--@embedoc:end-->\n');
+    embeds['report'] = { render };
+    const datasource = path.join(tempDir, 'data', 'sample.db');
+
+    graph = new DependencyGraph(config, embeds);
+    await graph.build();
+    expect(await findAffectedDocuments(config, embeds, graph, [datasource])).toEqual([
+      path.join(tempDir, 'docs', 'report.md'),
+      path.join(tempDir, 'docs', 'tables.md'),
+    ]);
+
+    const store = new DependencyStore(config);
+    store.record(path.join(tempDir, 'docs', 'report.md'), {
+      datasources: [],
+      files: [path.join(tempDir, 'report.csv')],
+    });
+    graph = new DependencyGraph(config, embeds, store);
+    await graph.build();
+    expect(await findAffectedDocuments(config, embeds, graph, [datasource])).toEqual([
+      path.join(tempDir, 'docs', 'tables.md'),
+    ]);
+  });
+
+  it('should include new documents matching a target', async () => {
+    await writeFile(path.join(tempDir, 'docs', 'new.md'), '# New\n');
+    await writeFile(path.join(tempDir, 'docs', 'draft.md'), '# Draft\n');
+
+    expect(
+      await findAffectedDocuments(config, embeds, graph, [
+        path.join(tempDir, 'docs', 'new.md'),
+        path.join(tempDir, 'docs', 'draft.md'),
+        path.join(tempDir, 'README.md'),
+      ])
+    ).toEqual([path.join(tempDir, 'docs', 'new.md')]);
+  });
+});
+
+describe('getChangedFilesSince', () => {
+  let repoDir: string;
+
+  const git = (args: string[]) =>
+    execFileSync('git', args, {
+      cwd: repoDir,
+      env: { ...process.env, GIT_CONFIG_NOSYSTEM: '1', HOME: repoDir },
+    });
+
+  const commit = async (file: string, content: string) => {
+    await writeFile(path.join(repoDir, file), content);
+    git(['add', file]);
+    git(['-c', 'user.name=Alice', '-c', 'user.email=alice@example.com', 'commit', '-q', '-m', file]);
+  };
+
+  beforeEach(async () => {
+    repoDir = await realpath(await mkdtemp(path.join(os.tmpdir(), 'embedoc-affected-git-')));
+    git(['init', '-q', '-b', 'main']);
+    await mkdir(path.join(repoDir, 'docs'));
+    await commit('docs/a.md', 'a');
+    await commit('docs/b.md', 'b');
+  });
+
+  afterEach(async () => {
+    await rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list committed, uncommitted and untracked changes since the merge base', async () => {
+    git(['checkout', '-q', '-b', 'feature']);
+    await commit('docs/c.md', 'c');
+    // Changes on main after the branch was created do not count
+    git(['checkout', '-q', 'main']);
+    await commit('docs/b.md', 'b2');
+    git(['checkout', '-q', 'feature']);
+    await writeFile(path.join(repoDir, 'docs', 'a.md'), 'a2');
+    await writeFile(path.join(repoDir, 'docs', 'new.md'), 'new');
+
+    expect(await getChangedFilesSince('main', path.join(repoDir, 'docs'))).toEqual([
+      path.join(repoDir, 'docs', 'a.md'),
+      path.join(repoDir, 'docs', 'c.md'),
+      path.join(repoDir, 'docs', 'new.md'),
+    ]);
+  });
+
+  it('should report unknown refs', async () => {
+    await expect(getChangedFilesSince('no-such-ref', repoDir)).rejects.toThrow(
+      /Could not list files changed since "no-such-ref"/
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { build } from '../src/core/processor.js';
+import { BuildCache, clearBuildCache, getCacheFile } from '../src/core/cache.js';
+import { DependencyStore } from '../src/core/dependency-store.js';
+import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import type { EmbedifyConfig, EmbedDefinition } from '../src/types/index.js';
+
+describe('BuildCache', () => {
+  let tempDir: string;
+  let config: EmbedifyConfig;
+  let renders: string[];
+  let embeds: Record<string, EmbedDefinition>;
+
+  const runBuild = async (options: { dryRun?: boolean } = {}) => {
+    const cache = await BuildCache.load(config, embeds);
+    const result = await build(config, embeds, {}, { ...options, cache });
+    await cache.save();
+    return result;
+  };
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `embedoc-cache-test-${Date.now()}`);
+    await mkdir(path.join(tempDir, 'embeds'), { recursive: true });
+    await writeFile(path.join(tempDir, 'embeds', 'index.ts'), 'export const embeds = {};\n');
+    await writeFile(path.join(tempDir, 'data.json'), '[1]');
+    await writeFile(path.join(tempDir, 'other.json'), '[2]');
+    await writeFile(path.join(tempDir, 'a.md'), '<!--@embedoc:uses_data-->\n<!--@embedoc:end-->\n');
+    await writeFile(path.join(tempDir, 'b.md'), '<!--@embedoc:static-->\n<!--@embedoc:end-->\n');
+
+    config = {
+      version: '1.0',
+      targets: [{ pattern: `${tempDir}/*.md`, comment_style: 'html' }],
+      embeds_dir: path.join(tempDir, 'embeds'),
+      datasources: {
+        data: { type: 'json', path: path.join(tempDir, 'data.json') },
+        other: { type: 'json', path: path.join(tempDir, 'other.json') },
+      },
+      cache: { dir: path.join(tempDir, '.embedoc') },
+    };
+
+    renders = [];
+    embeds = {
+      uses_data: {
+        dependsOn: ['data'],
+        render: async (ctx) => {
+          renders.push(path.basename(ctx.filePath));
+          return { content: 'data' };
+        },
+      },
+      static: {
+        dependsOn: [],
+        render: async (ctx) => {
+          renders.push(path.basename(ctx.filePath));
+          return { content: 'static' };
+        },
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should skip documents whose inputs are unchanged', async () => {
+    const first = await runBuild();
+    expect(first.cachedFiles).toBe(0);
+    expect(renders).toEqual(['a.md', 'b.md']);
+
+    renders = [];
+    const second = await runBuild();
+    expect(renders).toEqual([]);
+    expect(second.cachedFiles).toBe(2);
+    expect(second.results.every((r) => r.cached && r.success && !r.changed)).toBe(true);
+
+    const cacheData = JSON.parse(await readFile(getCacheFile(config), 'utf-8'));
+    expect(Object.keys(cacheData.files)).toHaveLength(2);
+  });
+
+  it('should rebuild documents that changed', async () => {
+    await runBuild();
+    await writeFile(path.join(tempDir, 'b.md'), 'Intro\n\n<!--@embedoc:static-->\n<!--@embedoc:end-->\n');
+
+    renders = [];
+    const result = await runBuild();
+    expect(renders).toEqual(['b.md']);
+    expect(result.cachedFiles).toBe(1);
+  });
+
+  it('should rebuild documents whose datasource changed', async () => {
+    await runBuild();
+    await writeFile(path.join(tempDir, 'data.json'), '[1, 2]');
+
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual(['a.md']);
+
+    // Datasources not used by any embed do not invalidate documents
+    await writeFile(path.join(tempDir, 'other.json'), '[3]');
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual([]);
+  });
+
+  it('should rebuild documents when a file inside a datasource directory changes', async () => {
+    const refs = path.join(tempDir, 'repo', '.git', 'refs', 'heads');
+    await mkdir(refs, { recursive: true });
+    await writeFile(path.join(refs, 'main'), 'aaa\n');
+    config.datasources!['data'] = { type: 'git', path: path.join(tempDir, 'repo') };
+    await runBuild();
+
+    await writeFile(path.join(refs, 'main'), 'bbb\n');
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual(['a.md']);
+  });
+
+  it('should treat embeds without dependsOn as depending on all datasources', async () => {
+    delete embeds['static']!.dependsOn;
+    await runBuild();
+    await writeFile(path.join(tempDir, 'other.json'), '[3]');
+
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual(['b.md']);
+  });
+
+  it('should rebuild all documents when embed sources change', async () => {
+    await runBuild();
+    await writeFile(path.join(tempDir, 'embeds', 'index.ts'), 'export const embeds = { x: 1 };\n');
+
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual(['a.md', 'b.md']);
+  });
+
+  it('should not cache stale documents in dry run', async () => {
+    await runBuild({ dryRun: true });
+
+    renders = [];
+    const result = await runBuild({ dryRun: true });
+    expect(renders).toEqual(['a.md', 'b.md']);
+    expect(result.results.every((r) => r.changed)).toBe(true);
+  });
+
+  it('should not cache documents with diagnostics', async () => {
+    await writeFile(path.join(tempDir, 'b.md'), '<!--@embedoc:missing-->\n<!--@embedoc:end-->\n');
+    await runBuild();
+
+    const result = await runBuild();
+    expect(result.results.find((r) => r.filePath.endsWith('b.md'))?.diagnostics).toHaveLength(1);
+  });
+
+  it('should rebuild documents when files read by embeds change', async () => {
+    await writeFile(path.join(tempDir, 'snippet.txt'), 'v1');
+    await writeFile(path.join(tempDir, 'b.md'), '<!--@embedoc:reads_file-->\n<!--@embedoc:end-->\n');
+    embeds['reads_file'] = {
+      render: async (ctx) => {
+        renders.push(path.basename(ctx.filePath));
+        return { content: await ctx.readFile(path.join(tempDir, 'snippet.txt')) };
+      },
+    };
+
+    const runTrackedBuild = async () => {
+      const dependencies = await DependencyStore.load(config);
+      const cache = await BuildCache.load(config, embeds, dependencies);
+      await build(config, embeds, {}, { cache, dependencies });
+      await cache.save();
+      await dependencies.save();
+    };
+    const root = process.cwd();
+    process.chdir(tempDir);
+    try {
+      await runTrackedBuild();
+      renders = [];
+      await runTrackedBuild();
+      expect(renders).toEqual([]);
+
+      await writeFile(path.join(tempDir, 'snippet.txt'), 'v2');
+      await runTrackedBuild();
+      expect(renders).toEqual(['b.md']);
+      expect(await readFile(path.join(tempDir, 'b.md'), 'utf-8')).toContain('v2');
+    } finally {
+      process.chdir(root);
+    }
+  });
+
+  it('should remove the cache file with clearBuildCache', async () => {
+    await runBuild();
+    expect(await clearBuildCache(config)).toBe(true);
+    expect(await clearBuildCache(config)).toBe(false);
+
+    renders = [];
+    await runBuild();
+    expect(renders).toEqual(['a.md', 'b.md']);
+  });
+});
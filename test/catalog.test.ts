@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createEmbedCatalog, renderEmbedCatalog } from '../src/core/catalog.js';
+import type { EmbedDefinition } from '../src/types/index.js';
+
+const embeds: Record<string, EmbedDefinition> = {
+  table_columns: {
+    description: 'Output table column information',
+    dependsOn: ['metadata_db'],
+    params: {
+      id: { type: 'string', required: true, description: 'Table name' },
+      format: { enum: ['table', 'list'], default: 'table' },
+      compact: { type: 'boolean', required: true },
+    },
+    render: async () => ({ content: '' }),
+  },
+  hello: {
+    render: async () => ({ content: '' }),
+  },
+};
+
+describe('createEmbedCatalog', () => {
+  it('should describe embeds sorted by name', () => {
+    const catalog = createEmbedCatalog(embeds);
+
+    expect(catalog.map((e) => e.name)).toEqual(['hello', 'table_columns']);
+    expect(catalog[0]).toEqual({
+      name: 'hello',
+      description: undefined,
+      datasources: [],
+      params: [],
+      usage: '<!--@embedoc:hello-->\n<!--@embedoc:end-->',
+    });
+    expect(catalog[1]?.datasources).toEqual(['metadata_db']);
+    expect(catalog[1]?.params[1]).toEqual({
+      name: 'format',
+      type: 'string',
+      required: false,
+      default: 'table',
+      enum: ['table', 'list'],
+      description: undefined,
+    });
+    expect(catalog[1]?.usage).toBe(
+      '<!--@embedoc:table_columns id="..." compact-->\n<!--@embedoc:end-->'
+    );
+  });
+});
+
+describe('renderEmbedCatalog', () => {
+  const catalog = createEmbedCatalog({ table_columns: embeds['table_columns']! });
+
+  it('should render markdown with a parameter table and usage example', () => {
+    const markdown = renderEmbedCatalog(catalog, 'markdown', { headingLevel: 3 });
+
+    expect(markdown).toContain('### `table_columns`\n\nOutput table column information');
+    expect(markdown).toContain('Datasources: `metadata_db`');
+    expect(markdown).toContain('| `id` | string | ✔ |  | Table name |');
+    expect(markdown).toContain('| `format` | "table" \\| "list" |  | `"table"` |  |');
+    expect(markdown).toContain('```markdown\n<!--@embedoc:table_columns id="..." compact-->');
+  });
+
+  it('should reject invalid heading levels', () => {
+    expect(() => renderEmbedCatalog(catalog, 'markdown', { headingLevel: 7 })).toThrow(
+      'Invalid heading level: 7 (must be 1 to 6)'
+    );
+    expect(() => renderEmbedCatalog(catalog, 'markdown', { headingLevel: NaN })).toThrow(
+      'Invalid heading level'
+    );
+  });
+
+  it('should render plain text', () => {
+    expect(renderEmbedCatalog(catalog)).toBe(
+      [
+        'table_columns - Output table column information',
+        '  datasources: metadata_db',
+        '  params:',
+        '    id (string, required) Table name',
+        '    format ("table" | "list", default: "table")',
+        '    compact (boolean, required)',
+        '  usage: <!--@embedoc:table_columns id="..." compact--><!--@embedoc:end-->',
+      ].join('\n')
+    );
+  });
+
+  it('should render json', () => {
+    expect(JSON.parse(renderEmbedCatalog(catalog, 'json'))).toEqual(
+      JSON.parse(JSON.stringify(catalog))
+    );
+  });
+});
@@ -2,21 +2,32 @@
  * Datasource Tests
  */
 
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import { mkdtemp, writeFile, rm, mkdir } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
 import Database from 'better-sqlite3';
 import {
   CsvDatasource,
   JsonDatasource,
   YamlDatasource,
   GlobDatasource,
+  MarkdownDatasource,
   SqliteDatasource,
+  SqlDatasource,
+  GitDatasource,
+  TypeScriptDatasource,
+  OpenApiDatasource,
   createDatasource,
   initializeDatasources,
   closeDatasources,
+  registerDatasourceType,
+  unregisterDatasourceType,
+  getDatasourceTypes,
+  getDatasourcePaths,
 } from '../dist/index.js';
+import type { Datasource, DatasourceConfig } from '../dist/index.js';
 
 describe('SqliteDatasource', () => {
   let tempDir: string;
@@ -149,6 +160,88 @@ Charlie,35,Kyoto`);
     await ds.close();
   });
 
+  it('should share one load between concurrent calls', async () => {
+    const ds = new CsvDatasource({ type: 'csv', path: csvPath });
+
+    const [first, second, queried] = await Promise.all([
+      ds.getAll(),
+      ds.getAll(),
+      ds.query('SELECT *'),
+    ]);
+
+    expect(second).toBe(first);
+    expect(queried).toHaveLength(first.length);
+
+    await ds.close();
+  });
+
+  it('should support ORDER BY, GROUP BY and aggregates', async () => {
+    const ds = new CsvDatasource({ type: 'csv', path: csvPath });
+
+    const sorted = await ds.query('SELECT name FROM data ORDER BY age DESC');
+    expect(sorted.map((r) => r['name'])).toEqual(['Charlie', 'Alice', 'Bob']);
+
+    const [stats] = await ds.query('SELECT COUNT(*) AS count, SUM(age) AS total FROM data');
+    expect(stats).toEqual({ count: 3, total: 90 });
+
+    const grouped = await ds.query(
+      'SELECT age > ? AS older, COUNT(*) AS count GROUP BY older ORDER BY older',
+      [28]
+    );
+    expect(grouped).toEqual([
+      { older: 0, count: 1 },
+      { older: 1, count: 2 },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should compare numeric columns as numbers', async () => {
+    const ds = new CsvDatasource({ type: 'csv', path: csvPath });
+
+    const result = await ds.query('SELECT * WHERE age >= ?', ['30']);
+
+    expect(result.map((r) => r['name'])).toEqual(['Alice', 'Charlie']);
+    expect(result[0]?.['age']).toBe(30);
+
+    await ds.close();
+  });
+
+  it('should use the configured table name', async () => {
+    const ds = new CsvDatasource({ type: 'csv', path: csvPath, table: 'people' });
+
+    const result = await ds.query('SELECT name FROM people WHERE city = ?', ['Osaka']);
+
+    expect(result).toEqual([{ name: 'Bob' }]);
+
+    await ds.close();
+  });
+
+  it('should query rows under the datasource name', async () => {
+    const datasources = initializeDatasources({
+      version: '1.0',
+      targets: [],
+      datasources: { users: { type: 'csv', path: csvPath } },
+    });
+
+    const result = await datasources['users']!.query('SELECT * FROM users WHERE age = ?', [25]);
+
+    expect(result).toEqual([{ name: 'Bob', age: 25, city: 'Osaka' }]);
+    expect(await datasources['users']!.query('SELECT COUNT(*) AS count FROM data')).toEqual([
+      { count: 3 },
+    ]);
+
+    await closeDatasources(datasources);
+  });
+
+  it('should report SQL errors', async () => {
+    const ds = new CsvDatasource({ type: 'csv', path: csvPath });
+
+    await expect(ds.query('SELECT missing FROM data')).rejects.toThrow(/^CSV query failed: /);
+
+    await ds.close();
+  });
+
   it('should throw error if path not provided', () => {
     expect(() => new CsvDatasource({ type: 'csv' }))
       .toThrow('CSV datasource requires "path" configuration');
@@ -211,6 +304,51 @@ describe('JsonDatasource', () => {
     await ds.close();
   });
 
+  it('should query top-level arrays as tables and join them', async () => {
+    const jsonPath = join(tempDir, 'tables.json');
+    await writeFile(jsonPath, JSON.stringify({
+      users: [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ],
+      orders: [
+        { user_id: 1, total: 10 },
+        { user_id: 1, total: 5 },
+        { user_id: 2, total: 7 },
+      ],
+    }));
+
+    const ds = new JsonDatasource({ type: 'json', path: jsonPath });
+    const result = await ds.query(
+      `SELECT u.name, SUM(o.total) AS total
+       FROM users u JOIN orders o ON o.user_id = u.id
+       GROUP BY u.id HAVING SUM(o.total) > ? ORDER BY u.name`,
+      [6]
+    );
+
+    expect(result).toEqual([
+      { name: 'Alice', total: 15 },
+      { name: 'Bob', total: 7 },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should return booleans and nested values unchanged', async () => {
+    const jsonPath = join(tempDir, 'nested.json');
+    await writeFile(jsonPath, JSON.stringify([
+      { id: 1, enabled: true, tags: ['a', 'b'], meta: { owner: 'x' } },
+      { id: 2, enabled: false, tags: [], meta: null },
+    ]));
+
+    const ds = new JsonDatasource({ type: 'json', path: jsonPath });
+    const result = await ds.query('SELECT * WHERE enabled = ?', [true]);
+
+    expect(result).toEqual([{ id: 1, enabled: true, tags: ['a', 'b'], meta: { owner: 'x' } }]);
+
+    await ds.close();
+  });
+
   it('should throw error if path not provided', () => {
     expect(() => new JsonDatasource({ type: 'json' }))
       .toThrow('JSON datasource requires "path" configuration');
@@ -352,12 +490,773 @@ describe('GlobDatasource', () => {
     await ds.close();
   });
 
+  it('should sort files with ORDER BY', async () => {
+    const ds = new GlobDatasource({
+      type: 'glob',
+      pattern: join(tempDir, 'docs', '*.md')
+    });
+
+    const result = await ds.query('SELECT name ORDER BY name');
+
+    expect(result).toEqual([{ name: 'guide.md' }, { name: 'readme.md' }]);
+
+    await ds.close();
+  });
+
   it('should throw error if pattern not provided', () => {
     expect(() => new GlobDatasource({ type: 'glob' }))
       .toThrow('Glob datasource requires "pattern" configuration');
   });
 });
 
+describe('MarkdownDatasource', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-md-'));
+    await mkdir(join(tempDir, 'guides'));
+    await writeFile(join(tempDir, 'guides', 'install.md'), [
+      '---',
+      'title: Installation',
+      'tags: [setup, cli]',
+      'order: 1',
+      'path: ignored',
+      '---',
+      '# Installing embedoc',
+      '',
+      'Run the installer, then you\'re done.',
+      '',
+      '```bash',
+      '# not a heading',
+      'npm install embedoc',
+      '```',
+      '',
+      '## Verify ##',
+      '',
+      '<!--@embedoc:version-->',
+      'stable',
+      '<!--@embedoc:end-->',
+    ].join('\n'));
+    await writeFile(join(tempDir, 'guides', 'usage.md'), [
+      '---',
+      'title: Usage',
+      'tags: [cli]',
+      'order: 2',
+      '---',
+      'Intro without heading.',
+      '',
+      '### Build `docs`',
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should read frontmatter, headings and word counts', async () => {
+    const ds = new MarkdownDatasource({ type: 'markdown', pattern: join(tempDir, 'guides', '*.md') });
+
+    const [install, usage] = await ds.getAll();
+
+    expect(install).toMatchObject({
+      name: 'install.md',
+      path: join(tempDir, 'guides', 'install.md'),
+      title: 'Installation',
+      tags: ['setup', 'cli'],
+      order: 1,
+      heading: 'Installing embedoc',
+      headings: [
+        { level: 1, text: 'Installing embedoc' },
+        { level: 2, text: 'Verify' },
+      ],
+      word_count: 10,
+    });
+    expect(install?.['frontmatter']).toMatchObject({ path: 'ignored' });
+    expect(usage).toMatchObject({
+      heading: 'Build `docs`',
+      headings: [{ level: 3, text: 'Build `docs`' }],
+    });
+
+    await ds.close();
+  });
+
+  it('should query frontmatter fields with SQL', async () => {
+    const ds = new MarkdownDatasource({ type: 'markdown', pattern: join(tempDir, 'guides', '*.md') });
+
+    const tagged = await ds.query(
+      'SELECT title FROM data WHERE EXISTS (SELECT 1 FROM json_each(tags) WHERE value = ?) ORDER BY "order" DESC',
+      ['cli']
+    );
+    const [first] = await ds.query('SELECT headings FROM data WHERE title = ?', ['Installation']);
+
+    expect(tagged).toEqual([{ title: 'Usage' }, { title: 'Installation' }]);
+    expect(first?.['headings']).toEqual([
+      { level: 1, text: 'Installing embedoc' },
+      { level: 2, text: 'Verify' },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should skip frontmatter fields clashing with columns in another case', async () => {
+    await mkdir(join(tempDir, 'mixed'));
+    await writeFile(join(tempDir, 'mixed', 'team.md'), '---\nName: Alice\nTitle: Team\ntitle: team\n---\n# Team\n');
+    const ds = new MarkdownDatasource({ type: 'markdown', pattern: join(tempDir, 'mixed', '*.md') });
+
+    const [row] = await ds.query('SELECT name, Title, frontmatter FROM data');
+
+    expect(row).toEqual({
+      name: 'team.md',
+      Title: 'Team',
+      frontmatter: { Name: 'Alice', Title: 'Team', title: 'team' },
+    });
+
+    await ds.close();
+  });
+
+  it('should report matched documents as its paths', () => {
+    const paths = getDatasourcePaths({ type: 'markdown', pattern: join(tempDir, 'guides', '*.md') });
+
+    expect(paths).toEqual([
+      join(tempDir, 'guides', 'install.md'),
+      join(tempDir, 'guides', 'usage.md'),
+    ]);
+  });
+
+  it('should report invalid frontmatter with the file path', async () => {
+    await mkdir(join(tempDir, 'broken'));
+    await writeFile(join(tempDir, 'broken', 'bad.md'), '---\ntitle: [unclosed\n---\n# Bad\n');
+    const ds = new MarkdownDatasource({ type: 'markdown', pattern: join(tempDir, 'broken', '*.md') });
+
+    await expect(ds.getAll()).rejects.toThrow(/invalid frontmatter in .*bad\.md/);
+  });
+
+  it('should throw error if pattern not provided', () => {
+    expect(() => new MarkdownDatasource({ type: 'markdown' }))
+      .toThrow('Markdown datasource requires "pattern" configuration');
+  });
+});
+
+describe('SqlDatasource', () => {
+  let tempDir: string;
+  let datasources: Record<string, DatasourceConfig>;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-test-'));
+
+    await writeFile(join(tempDir, 'endpoints.csv'), `path,service,calls
+/users,accounts,120
+/orders,billing,80
+/invoices,billing,40`);
+    await writeFile(join(tempDir, 'owners.yaml'), `
+- service: accounts
+  team: Identity
+- service: billing
+  team: Payments
+`);
+    const db = new Database(join(tempDir, 'schema.db'));
+    db.exec(`
+      CREATE TABLE services (name TEXT, tier INTEGER);
+      INSERT INTO services VALUES ('accounts', 1), ('billing', 2);
+    `);
+    db.close();
+
+    datasources = {
+      endpoints: { type: 'csv', path: join(tempDir, 'endpoints.csv') },
+      owners: { type: 'yaml', path: join(tempDir, 'owners.yaml') },
+      schema: { type: 'sqlite', path: join(tempDir, 'schema.db') },
+    };
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should join datasources of different types', async () => {
+    const ds = new SqlDatasource(
+      { type: 'sql', sources: ['endpoints', 'owners', 'schema'] },
+      datasources
+    );
+
+    const result = await ds.query(
+      `SELECT e.path, o.team, s.tier
+       FROM endpoints e
+       JOIN owners o ON o.service = e.service
+       JOIN schema.services s ON s.name = e.service
+       WHERE e.calls > ? ORDER BY e.calls DESC`,
+      [50]
+    );
+
+    expect(result).toEqual([
+      { path: '/users', team: 'Identity', tier: 1 },
+      { path: '/orders', team: 'Payments', tier: 2 },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should create views and use them in the default query', async () => {
+    const ds = new SqlDatasource(
+      {
+        type: 'sql',
+        sources: { api: 'endpoints', teams: 'owners' },
+        views: {
+          team_calls: `SELECT t.team, SUM(a.calls) AS calls
+                       FROM api a JOIN teams t ON t.service = a.service GROUP BY t.team`,
+        },
+        query: 'SELECT * FROM team_calls ORDER BY team',
+      },
+      datasources
+    );
+
+    expect(await ds.getAll()).toEqual([
+      { team: 'Identity', calls: 120 },
+      { team: 'Payments', calls: 120 },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should reject writes to attached databases', async () => {
+    const ds = new SqlDatasource({ type: 'sql', sources: ['schema'] }, datasources);
+
+    await expect(ds.query('DELETE FROM schema.services')).rejects.toThrow(/^SQL query failed: /);
+
+    await ds.close();
+  });
+
+  it('should report invalid views when queried', async () => {
+    const ds = new SqlDatasource(
+      { type: 'sql', sources: ['owners'], views: { broken: 'SELECT * FROM missing' } },
+      datasources
+    );
+
+    await expect(ds.query('SELECT * FROM owners')).rejects.toThrow('SQL view "broken" failed');
+
+    await ds.close();
+  });
+
+  it('should throw error for unknown sources', () => {
+    expect(() => new SqlDatasource({ type: 'sql', sources: ['nope'] }, datasources))
+      .toThrow('SQL datasource source "nope" is not a configured datasource');
+    expect(() => new SqlDatasource({ type: 'sql' }, datasources))
+      .toThrow('SQL datasource requires "sources" configuration');
+  });
+
+  it('should resolve sources by name in initializeDatasources', async () => {
+    const all = initializeDatasources({
+      version: '1.0',
+      targets: [],
+      datasources: {
+        ...datasources,
+        catalog: { type: 'sql', sources: ['owners'], query: 'SELECT team FROM owners' },
+      },
+    });
+
+    expect(await all['catalog']?.getAll()).toEqual([{ team: 'Identity' }, { team: 'Payments' }]);
+
+    await closeDatasources(all);
+  });
+
+  it('should report the files of all sources as its paths', () => {
+    const paths = getDatasourcePaths(
+      { type: 'sql', sources: ['endpoints', 'owners', 'schema'] },
+      datasources
+    );
+
+    expect(paths).toEqual([
+      join(tempDir, 'endpoints.csv'),
+      join(tempDir, 'owners.yaml'),
+      join(tempDir, 'schema.db'),
+    ]);
+  });
+});
+
+describe('GitDatasource', () => {
+  let repoDir: string;
+
+  const git = (args: string[], date = '2024-01-01T00:00:00Z') =>
+    execFileSync('git', args, {
+      cwd: repoDir,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+        GIT_CONFIG_NOSYSTEM: '1',
+        HOME: repoDir,
+      },
+    });
+
+  const commit = async (file: string, message: string, author: string, date: string) => {
+    await writeFile(join(repoDir, file), `${message}\n`);
+    git(['add', file]);
+    git(['-c', `user.name=${author}`, '-c', `user.email=${author.toLowerCase()}@example.com`,
+      'commit', '-q', '-m', message], date);
+  };
+
+  beforeAll(async () => {
+    repoDir = await mkdtemp(join(tmpdir(), 'embedoc-git-'));
+    git(['init', '-q', '-b', 'main']);
+    await commit('README.md', 'Initial commit', 'Alice', '2024-01-01T10:00:00Z');
+    await commit('src.ts', 'Add source', 'Bob', '2024-02-01T10:00:00Z');
+    git(['tag', 'v1.0.0']);
+    await commit('README.md', 'Update readme', 'Alice', '2024-03-01T10:00:00Z');
+  });
+
+  afterAll(async () => {
+    await rm(repoDir, { recursive: true });
+  });
+
+  it('should list commits newest first', async () => {
+    const ds = new GitDatasource({ type: 'git', path: repoDir });
+
+    const commits = await ds.getAll();
+
+    expect(commits.map((c) => c['subject'])).toEqual(['Update readme', 'Add source', 'Initial commit']);
+    expect(commits[0]).toMatchObject({ author: 'Alice', email: 'alice@example.com', body: '' });
+    expect(commits[0]?.['date']).toMatch(/^2024-03-01T10:00:00/);
+    expect(String(commits[0]?.['short_hash'])).toHaveLength(7);
+
+    await ds.close();
+  });
+
+  it('should limit commits with max_count', async () => {
+    const ds = new GitDatasource({ type: 'git', path: repoDir, max_count: 1 });
+
+    expect(await ds.getAll()).toHaveLength(1);
+
+    await ds.close();
+  });
+
+  it('should expose tags, authors and files tables', async () => {
+    const ds = new GitDatasource({ type: 'git', path: repoDir });
+
+    const [tag] = await ds.query('SELECT * FROM tags');
+    const [source] = await ds.query('SELECT hash FROM commits WHERE subject = ?', ['Add source']);
+    expect(tag).toMatchObject({ name: 'v1.0.0', hash: source?.['hash'], subject: 'Add source' });
+
+    expect(await ds.query('SELECT name, commits FROM authors')).toEqual([
+      { name: 'Alice', commits: 2 },
+      { name: 'Bob', commits: 1 },
+    ]);
+
+    expect(await ds.query('SELECT path, last_author, last_subject, commits FROM files ORDER BY path')).toEqual([
+      { path: 'README.md', last_author: 'Alice', last_subject: 'Update readme', commits: 2 },
+      { path: 'src.ts', last_author: 'Bob', last_subject: 'Add source', commits: 1 },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should return the configured table from getAll()', async () => {
+    const ds = new GitDatasource({ type: 'git', path: repoDir, table: 'files' });
+
+    expect((await ds.getAll()).map((f) => f['path'])).toEqual(['README.md', 'src.ts']);
+    // SELECT without FROM reads the configured table
+    expect(await ds.query('SELECT path WHERE commits > 1')).toEqual([{ path: 'README.md' }]);
+
+    await ds.close();
+  });
+
+  it('should read repositories from a subdirectory', async () => {
+    const subRepo = await mkdtemp(join(tmpdir(), 'embedoc-git-sub-'));
+    const run = (args: string[]) =>
+      execFileSync('git', args, { cwd: subRepo, env: { ...process.env, GIT_CONFIG_NOSYSTEM: '1', HOME: subRepo } });
+    try {
+      run(['init', '-q', '-b', 'main']);
+      await mkdir(join(subRepo, 'src'));
+      await writeFile(join(subRepo, 'src', 'index.ts'), 'export {};\n');
+      await writeFile(join(subRepo, 'README.md'), '# Readme\n');
+      run(['add', '.']);
+      run(['-c', 'user.name=Alice', '-c', 'user.email=alice@example.com', 'commit', '-q', '-m', 'Initial commit']);
+
+      const config: DatasourceConfig = { type: 'git', path: join(subRepo, 'src'), table: 'files' };
+      const ds = new GitDatasource(config);
+
+      // Files under the subdirectory, with paths from the repository root
+      expect((await ds.getAll()).map((f) => f['path'])).toEqual(['src/index.ts']);
+      expect(getDatasourcePaths(config)).toEqual([
+        join(subRepo, '.git', 'HEAD'),
+        join(subRepo, '.git', 'refs'),
+        join(subRepo, '.git', 'packed-refs'),
+      ]);
+
+      await ds.close();
+    } finally {
+      await rm(subRepo, { recursive: true, force: true });
+    }
+  });
+
+  it('should watch HEAD of worktrees and refs of the main repository', () => {
+    const worktree = `${repoDir}-worktree`;
+    git(['worktree', 'add', '-q', '--detach', worktree]);
+    try {
+      expect(getDatasourcePaths({ type: 'git', path: worktree })).toEqual([
+        join(repoDir, '.git', 'worktrees', worktree.split('/').pop()!, 'HEAD'),
+        join(repoDir, '.git', 'refs'),
+        join(repoDir, '.git', 'packed-refs'),
+      ]);
+    } finally {
+      git(['worktree', 'remove', '--force', worktree]);
+    }
+  });
+
+  it('should report git errors', async () => {
+    const ds = new GitDatasource({ type: 'git', path: repoDir, ref: 'no-such-branch' });
+
+    await expect(ds.getAll()).rejects.toThrow(/^Git datasource failed: /);
+  });
+
+  it('should validate config', () => {
+    expect(() => new GitDatasource({ type: 'git', table: 'branches' }))
+      .toThrow('Git datasource "table" must be one of: commits, tags, authors, files');
+    expect(() => new GitDatasource({ type: 'git', max_count: 0 }))
+      .toThrow('Git datasource "max_count" must be a positive integer');
+  });
+});
+
+describe('TypeScriptDatasource', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-ts-'));
+    await mkdir(join(tempDir, 'src'));
+    await writeFile(join(tempDir, 'src', 'api.ts'), `
+/**
+ * Add two numbers.
+ *
+ * Longer description.
+ * @param a - First number
+ * @returns The sum
+ */
+export function add(a: number, b = 1): number {
+  return a + b;
+}
+
+/** Build options */
+export interface BuildOptions extends BaseOptions {
+  /** Report changes without writing files */
+  dryRun?: boolean;
+  /** @deprecated Use dryRun */
+  check: boolean;
+}
+
+interface BaseOptions {
+  verbose: boolean;
+}
+
+export type Mode = 'fast' | 'safe';
+
+export class Builder {
+  private secret = 1;
+  run(mode: Mode): Promise<void> {
+    return Promise.resolve();
+  }
+}
+`);
+    await writeFile(join(tempDir, 'src', 'index.ts'), `export { add as sum } from './api.js';\n`);
+    await writeFile(join(tempDir, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { strict: true },
+      include: ['src/index.ts'],
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should list exports with signatures, docs and locations', async () => {
+    const ds = new TypeScriptDatasource({ type: 'typescript', pattern: join(tempDir, 'src', '*.ts') });
+
+    const exports = await ds.getAll();
+    const add = exports.find((e) => e['name'] === 'add');
+
+    expect(exports.map((e) => `${e['kind']} ${e['name']}`).sort()).toEqual([
+      'class Builder',
+      'function add',
+      'function sum',
+      'interface BuildOptions',
+      'type Mode',
+    ]);
+    expect(add).toMatchObject({
+      signature: 'add(a: number, b?: number): number',
+      summary: 'Add two numbers.',
+      description: 'Add two numbers.\n\nLonger description.',
+      tags: [
+        { name: 'param', text: 'a - First number' },
+        { name: 'returns', text: 'The sum' },
+      ],
+      line: 9,
+      deprecated: false,
+    });
+    expect(String(add?.['file'])).toMatch(/src\/api\.ts$/);
+    expect(exports.find((e) => e['name'] === 'BuildOptions')?.['signature'])
+      .toBe('interface BuildOptions extends BaseOptions');
+    expect(exports.find((e) => e['name'] === 'Mode')?.['signature']).toBe("type Mode = 'fast' | 'safe'");
+
+    await ds.close();
+  });
+
+  it('should list public members of classes and interfaces', async () => {
+    const ds = new TypeScriptDatasource({ type: 'typescript', pattern: join(tempDir, 'src', 'api.ts') });
+
+    const members = await ds.query(
+      'SELECT parent, name, signature, optional, deprecated FROM members ORDER BY parent, name'
+    );
+
+    expect(members).toEqual([
+      { parent: 'BuildOptions', name: 'check', signature: 'check: boolean', optional: false, deprecated: true },
+      { parent: 'BuildOptions', name: 'dryRun', signature: 'dryRun?: boolean', optional: true, deprecated: false },
+      { parent: 'BuildOptions', name: 'verbose', signature: 'verbose: boolean', optional: false, deprecated: false },
+      { parent: 'Builder', name: 'run', signature: 'run(mode: Mode): Promise<void>', optional: false, deprecated: false },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should read files from tsconfig and resolve re-exports', async () => {
+    const ds = new TypeScriptDatasource({ type: 'typescript', tsconfig: join(tempDir, 'tsconfig.json') });
+
+    const [sum] = await ds.query('SELECT name, module, file, summary FROM exports');
+
+    expect(sum?.['name']).toBe('sum');
+    expect(String(sum?.['module'])).toMatch(/src\/index\.ts$/);
+    expect(String(sum?.['file'])).toMatch(/src\/api\.ts$/);
+    expect(sum?.['summary']).toBe('Add two numbers.');
+
+    await ds.close();
+  });
+
+  it('should report the tsconfig and source files as its paths', () => {
+    const paths = getDatasourcePaths({ type: 'typescript', tsconfig: join(tempDir, 'tsconfig.json') });
+
+    expect(paths).toEqual([join(tempDir, 'tsconfig.json'), join(tempDir, 'src', 'index.ts')]);
+  });
+
+  it('should validate config', () => {
+    expect(() => new TypeScriptDatasource({ type: 'typescript' }))
+      .toThrow('TypeScript datasource requires "tsconfig" or "pattern" configuration');
+    expect(() => new TypeScriptDatasource({ type: 'typescript', pattern: '*.ts', table: 'types' }))
+      .toThrow('TypeScript datasource "table" must be one of: exports, members');
+  });
+});
+
+describe('OpenApiDatasource', () => {
+  let tempDir: string;
+  let specPath: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-openapi-'));
+    specPath = join(tempDir, 'openapi.yaml');
+    await writeFile(specPath, `
+openapi: 3.0.3
+info:
+  title: Pet API
+  version: 2.1.0
+security:
+  - bearerAuth: []
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List pets
+      tags: [Pets]
+      security: []
+      parameters:
+        - $ref: '#/components/parameters/Limit'
+      responses:
+        '200':
+          description: Pets
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: '#/components/schemas/Pet'
+    post:
+      operationId: createPet
+      summary: Create a pet
+      tags: [Pets, Admin]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Pet'
+      responses:
+        '201':
+          $ref: '#/components/responses/Created'
+  /pets/{id}:
+    parameters:
+      - name: id
+        in: path
+        required: true
+        schema:
+          type: string
+    get:
+      operationId: getPet
+      deprecated: true
+      parameters:
+        - name: id
+          in: path
+          required: true
+          description: Pet ID
+          schema:
+            type: integer
+            format: int64
+      responses:
+        '200':
+          description: A pet
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+      schema:
+        type: integer
+  responses:
+    Created:
+      description: Created
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+          description: Pet name
+        owner:
+          $ref: '#/components/schemas/Owner'
+        parent:
+          $ref: '#/components/schemas/Pet'
+    Owner:
+      type: object
+      properties:
+        email:
+          type: string
+          format: email
+`);
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should list operations with security applied', async () => {
+    const ds = new OpenApiDatasource({ type: 'openapi', path: specPath });
+
+    const operations = await ds.getAll();
+
+    expect(operations.map((op) => [op['method'], op['path'], op['auth'], op['deprecated']])).toEqual([
+      ['GET', '/pets', false, false],
+      ['POST', '/pets', true, false],
+      ['GET', '/pets/{id}', true, true],
+    ]);
+    expect(operations[1]).toMatchObject({
+      operation_id: 'createPet',
+      summary: 'Create a pet',
+      tags: ['Pets', 'Admin'],
+    });
+
+    await ds.close();
+  });
+
+  it('should merge path-level parameters and resolve $refs', async () => {
+    const ds = new OpenApiDatasource({ type: 'openapi', path: specPath });
+
+    const parameters = await ds.query(
+      'SELECT operation_id, name, "in", required, type, description FROM parameters ORDER BY operation_id, name'
+    );
+
+    expect(parameters).toEqual([
+      { operation_id: 'createPet', name: 'body', in: 'body', required: true, type: 'Pet', description: '' },
+      { operation_id: 'getPet', name: 'id', in: 'path', required: true, type: 'integer(int64)', description: 'Pet ID' },
+      { operation_id: 'listPets', name: 'limit', in: 'query', required: false, type: 'integer', description: '' },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should list responses with schema types', async () => {
+    const ds = new OpenApiDatasource({ type: 'openapi', path: specPath, table: 'responses' });
+
+    const responses = await ds.getAll();
+    const list = responses.find((r) => r['operation_id'] === 'listPets');
+
+    expect(responses.map((r) => [r['operation_id'], r['status'], r['description']])).toEqual([
+      ['listPets', '200', 'Pets'],
+      ['createPet', '201', 'Created'],
+      ['getPet', '200', 'A pet'],
+    ]);
+    expect(list).toMatchObject({ content_types: ['application/json'], type: 'Pet[]' });
+    // Recursive references stay as $ref
+    expect(list?.['schema']).toMatchObject({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          owner: { properties: { email: { type: 'string' } } },
+          parent: { $ref: '#/components/schemas/Pet' },
+        },
+      },
+    });
+
+    await ds.close();
+  });
+
+  it('should list schemas, properties and info', async () => {
+    const ds = new OpenApiDatasource({ type: 'openapi', path: specPath });
+
+    const properties = await ds.query(
+      'SELECT parent, name, type, required, description FROM properties ORDER BY parent, name'
+    );
+    const [info] = await ds.query('SELECT title, version, openapi FROM info');
+    const schemas = await ds.query('SELECT name, type, required_properties FROM schemas ORDER BY name');
+
+    expect(properties).toEqual([
+      { parent: 'Owner', name: 'email', type: 'string(email)', required: false, description: '' },
+      { parent: 'Pet', name: 'name', type: 'string', required: true, description: 'Pet name' },
+      { parent: 'Pet', name: 'owner', type: 'Owner', required: false, description: '' },
+      { parent: 'Pet', name: 'parent', type: 'Pet', required: false, description: '' },
+    ]);
+    expect(info).toEqual({ title: 'Pet API', version: '2.1.0', openapi: '3.0.3' });
+    expect(schemas).toEqual([
+      { name: 'Owner', type: 'object', required_properties: [] },
+      { name: 'Pet', type: 'object', required_properties: ['name'] },
+    ]);
+
+    await ds.close();
+  });
+
+  it('should filter operations by tag with SQL', async () => {
+    const ds = new OpenApiDatasource({ type: 'openapi', path: specPath });
+
+    const rows = await ds.query(
+      'SELECT operation_id FROM operations WHERE EXISTS (SELECT 1 FROM json_each(tags) WHERE value = ?)',
+      ['Admin']
+    );
+
+    expect(rows).toEqual([{ operation_id: 'createPet' }]);
+
+    await ds.close();
+  });
+
+  it('should reject files that are not OpenAPI documents', async () => {
+    const notSpec = join(tempDir, 'swagger.json');
+    await writeFile(notSpec, JSON.stringify({ swagger: '2.0', paths: {} }));
+    const ds = new OpenApiDatasource({ type: 'openapi', path: notSpec });
+
+    await expect(ds.getAll()).rejects.toThrow('not an OpenAPI 3.x document');
+  });
+
+  it('should validate config', () => {
+    expect(() => new OpenApiDatasource({ type: 'openapi' }))
+      .toThrow('OpenAPI datasource requires "path" configuration');
+    expect(() => new OpenApiDatasource({ type: 'openapi', path: specPath, table: 'paths' }))
+      .toThrow('OpenAPI datasource "table" must be one of: operations, parameters, responses');
+  });
+});
+
 describe('createDatasource factory', () => {
   let tempDir: string;
 
@@ -412,6 +1311,44 @@ describe('createDatasource factory', () => {
   });
 });
 
+describe('datasource transforms', () => {
+  let tempDir: string;
+  let jsonPath: string;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-test-'));
+    jsonPath = join(tempDir, 'items.json');
+    await writeFile(jsonPath, JSON.stringify([
+      { id: 1, status: 'active', rank: 2 },
+      { id: 2, status: 'inactive', rank: 1 },
+      { id: 3, status: 'active', rank: 1 },
+    ]));
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should apply transforms to getAll() but not to query()', async () => {
+    const ds = createDatasource({
+      type: 'json',
+      path: jsonPath,
+      transforms: [{ filter: { status: 'active' } }, { sort: 'rank' }, { pick: ['id'] }],
+    });
+
+    expect(ds.type).toBe('json');
+    expect(await ds.getAll()).toEqual([{ id: 3 }, { id: 1 }]);
+    expect(await ds.query('SELECT id FROM data')).toHaveLength(3);
+
+    await ds.close();
+  });
+
+  it('should throw error for invalid transforms', () => {
+    expect(() => createDatasource({ type: 'json', path: jsonPath, transforms: [{ take: 1 }] as any }))
+      .toThrow('Invalid datasource transforms: transforms[0]: unknown step "take"');
+  });
+});
+
 describe('initializeDatasources / closeDatasources', () => {
   let tempDir: string;
 
@@ -456,3 +1393,96 @@ describe('initializeDatasources / closeDatasources', () => {
   });
 });
 
+describe('datasource type registry', () => {
+  /** In-memory datasource returning rows from its config */
+  const createStaticDatasource = (config: DatasourceConfig): Datasource => {
+    const rows = (config.options?.['rows'] as Record<string, unknown>[] | undefined) ?? [];
+    return {
+      type: 'static',
+      query: async () => rows,
+      getAll: async () => rows,
+      close: async () => undefined,
+    };
+  };
+
+  afterEach(() => {
+    for (const type of ['static', 'async_static', 'failing', 'multi_file']) {
+      unregisterDatasourceType(type);
+    }
+  });
+
+  it('should create datasources of a registered type', async () => {
+    registerDatasourceType('static', createStaticDatasource);
+
+    const ds = createDatasource({ type: 'static', options: { rows: [{ id: 1 }] } });
+
+    expect(getDatasourceTypes()).toContain('static');
+    expect(ds.type).toBe('static');
+    expect(await ds.getAll()).toEqual([{ id: 1 }]);
+  });
+
+  it('should include registered types in initializeDatasources', async () => {
+    registerDatasourceType('static', createStaticDatasource);
+
+    const datasources = initializeDatasources({
+      version: '1.0',
+      targets: [],
+      datasources: { catalog: { type: 'static', options: { rows: [{ name: 'billing' }] } } },
+    });
+
+    expect(await datasources['catalog']?.query('')).toEqual([{ name: 'billing' }]);
+    await closeDatasources(datasources);
+  });
+
+  it('should support async factories', async () => {
+    let closed = false;
+    registerDatasourceType('async_static', async (config) => {
+      await new Promise((r) => setTimeout(r, 5));
+      return { ...createStaticDatasource(config), close: async () => void (closed = true) };
+    });
+
+    const ds = createDatasource({ type: 'async_static', options: { rows: [{ id: 2 }] } });
+
+    expect(ds.type).toBe('async_static');
+    expect(await ds.getAll()).toEqual([{ id: 2 }]);
+    await ds.close();
+    expect(closed).toBe(true);
+  });
+
+  it('should report async factory errors when the datasource is used', async () => {
+    registerDatasourceType('failing', async () => {
+      throw new Error('service unavailable');
+    });
+
+    const ds = createDatasource({ type: 'failing' });
+
+    await expect(ds.getAll()).rejects.toThrow('service unavailable');
+    await ds.close();
+  });
+
+  it('should use getPaths for the files a datasource reads', () => {
+    registerDatasourceType('multi_file', {
+      create: createStaticDatasource,
+      getPaths: (config) => config.options?.['files'] as string[],
+    });
+
+    expect(getDatasourcePaths({ type: 'multi_file', options: { files: ['a.toml', 'b.toml'] } })).toEqual([
+      'a.toml',
+      'b.toml',
+    ]);
+    expect(getDatasourcePaths({ type: 'json', path: 'data.json' })).toEqual(['data.json']);
+    expect(getDatasourcePaths({ type: 'glob', pattern: '*.md' })).toEqual([]);
+  });
+
+  it('should list registered types for unknown types', () => {
+    expect(() => createDatasource({ type: 'toml' })).toThrow(/registered: sqlite, csv, json/);
+  });
+
+  it('should remove unregistered types', () => {
+    registerDatasourceType('static', createStaticDatasource);
+
+    expect(unregisterDatasourceType('static')).toBe(true);
+    expect(unregisterDatasourceType('static')).toBe(false);
+    expect(getDatasourceTypes()).not.toContain('static');
+  });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'node:path';
 import { DependencyGraph } from '../src/core/dependency.js';
+import { DependencyStore } from '../src/core/dependency-store.js';
+import { registerDatasourceType, unregisterDatasourceType } from '../src/datasources/index.js';
 import type { EmbedifyConfig, EmbedDefinition } from '../src/types/index.js';
 
 describe('DependencyGraph', () => {
@@ -58,6 +61,10 @@ describe('DependencyGraph', () => {
   });
 
   describe('getWatchPaths', () => {
+    afterEach(() => {
+      unregisterDatasourceType('toml_set');
+    });
+
     it('should return datasource paths and embeds directory', () => {
       const graph = new DependencyGraph(config, embeds);
       const paths = graph.getWatchPaths();
@@ -68,6 +75,63 @@ describe('DependencyGraph', () => {
       expect(paths.some((p) => p.includes('embeds'))).toBe(true);
     });
 
+    it('should include files of custom datasource types', () => {
+      registerDatasourceType('toml_set', {
+        create: () => {
+          throw new Error('not used');
+        },
+        getPaths: (dsConfig) => dsConfig.options?.['files'] as string[],
+      });
+      config.datasources!['settings'] = {
+        type: 'toml_set',
+        options: { files: ['./a.toml', './b.toml'] },
+      };
+
+      const paths = new DependencyGraph(config, embeds).getWatchPaths();
+
+      expect(paths.some((p) => p.endsWith('a.toml'))).toBe(true);
+      expect(paths.some((p) => p.endsWith('b.toml'))).toBe(true);
+    });
+
+    it('should find the files of each datasource once', async () => {
+      let calls = 0;
+      registerDatasourceType('toml_set', {
+        create: () => {
+          throw new Error('not used');
+        },
+        getPaths: () => {
+          calls++;
+          return ['./a.toml'];
+        },
+      });
+      config.datasources!['settings'] = { type: 'toml_set' };
+      const graph = new DependencyGraph(config, embeds);
+      for (const doc of ['./docs/a.md', './docs/b.md']) {
+        // code_snippet declares no dependsOn, so it may use every datasource
+        await graph.analyzeDocument(
+          doc,
+          config.targets[0]!,
+          '<!--@embedoc:code_snippet-->\n<!--@embedoc:end-->\n'
+        );
+      }
+
+      expect(graph.getAffectedDocuments('./a.toml')).toEqual([
+        path.resolve('./docs/a.md'),
+        path.resolve('./docs/b.md'),
+      ]);
+      expect(graph.getWatchPaths()).toContain(path.resolve('./a.toml'));
+      expect(calls).toBe(1);
+    });
+
+    it('should include git refs for git datasources', () => {
+      config.datasources!['history'] = { type: 'git', path: './repo' };
+
+      const paths = new DependencyGraph(config, embeds).getWatchPaths();
+
+      expect(paths).toContain(path.resolve('./repo/.git/HEAD'));
+      expect(paths).toContain(path.resolve('./repo/.git/refs'));
+    });
+
     it('should handle config without datasources', () => {
       const configNoDatasources: EmbedifyConfig = {
         version: '1.0',
@@ -88,6 +152,113 @@ describe('DependencyGraph', () => {
 
       expect(affected).toEqual([]);
     });
+
+    it('should find documents affected by files inside datasource directories', async () => {
+      config.datasources!['history'] = { type: 'git', path: './repo' };
+      embeds['changelog'] = {
+        dependsOn: ['history'],
+        async render() {
+          return { content: '' };
+        },
+      };
+      const graph = new DependencyGraph(config, embeds);
+      await graph.analyzeDocument(
+        './docs/changelog.md',
+        config.targets[0]!,
+        '<!--@embedoc:changelog-->\n<!--@embedoc:end-->\n'
+      );
+
+      expect(graph.getAffectedDocuments('./repo/.git/refs/heads/main')).toEqual([
+        path.resolve('./docs/changelog.md'),
+      ]);
+      expect(graph.getAffectedDocuments('./repo/.git/refs-other')).toEqual([]);
+    });
+
+    it('should find documents affected through recorded dependencies', async () => {
+      const store = new DependencyStore(config);
+      store.record('./docs/report.md', {
+        datasources: ['api_endpoints'],
+        files: [path.resolve('./snippets/example.ts')],
+      });
+      const graph = new DependencyGraph(config, embeds, store);
+      // code_snippet declares no dependsOn
+      await graph.analyzeDocument(
+        './docs/report.md',
+        config.targets[0]!,
+        '<!--@embedoc:code_snippet-->\n<!--@embedoc:end-->\n'
+      );
+
+      expect(graph.getAffectedDocuments('./data/api_endpoints.csv')).toEqual([
+        path.resolve('./docs/report.md'),
+      ]);
+      expect(graph.getAffectedDocuments('./snippets/example.ts')).toEqual([
+        path.resolve('./docs/report.md'),
+      ]);
+      expect(graph.getAffectedDocuments('./data/sample.db')).toEqual([]);
+      expect(graph.getWatchPaths()).toContain(path.resolve('./snippets/example.ts'));
+    });
+  });
+
+  describe('export', () => {
+    let graph: DependencyGraph;
+
+    beforeEach(async () => {
+      const store = new DependencyStore(config);
+      store.record('./docs/guide.md', { datasources: [], files: [path.resolve('./src/example.ts')] });
+      graph = new DependencyGraph(config, embeds, store);
+      await graph.analyzeDocument(
+        './docs/tables.md',
+        config.targets[0]!,
+        '<!--@embedoc:table_columns id="users"-->\n<!--@embedoc:end-->\n'
+      );
+      await graph.analyzeDocument(
+        './docs/guide.md',
+        config.targets[0]!,
+        '<!--@embedoc:code_snippet-->\n<!--@embedoc:end-->\n'
+      );
+    });
+
+    it('should export documents, embeds, datasources, files and edges as JSON', () => {
+      expect(graph.toJSON()).toEqual({
+        documents: ['docs/guide.md', 'docs/tables.md'],
+        embeds: ['code_snippet', 'table_columns'],
+        datasources: [{ path: 'data/sample.db', names: ['metadata_db'] }],
+        files: ['src/example.ts'],
+        edges: [
+          { from: 'docs/guide.md', to: 'embed:code_snippet' },
+          { from: 'docs/guide.md', to: 'src/example.ts' },
+          { from: 'docs/tables.md', to: 'embed:table_columns' },
+          { from: 'embed:table_columns', to: 'data/sample.db' },
+        ],
+      });
+    });
+
+    it('should export DOT', () => {
+      const dot = graph.toDot();
+
+      expect(dot.startsWith('digraph embedoc {')).toBe(true);
+      expect(dot).toContain('"docs/tables.md" [label="docs/tables.md", shape=note];');
+      expect(dot).toContain('"embed:table_columns" [label="table_columns", shape=component];');
+      expect(dot).toContain('"data/sample.db" [label="metadata_db (data/sample.db)", shape=cylinder];');
+      expect(dot).toContain('"embed:table_columns" -> "data/sample.db";');
+      expect(dot.endsWith('}')).toBe(true);
+    });
+
+    it('should export a Mermaid flowchart', () => {
+      expect(graph.toMermaid().split('\n')).toEqual([
+        'flowchart LR',
+        '  n0["docs/guide.md"]',
+        '  n1["docs/tables.md"]',
+        '  n2[["code_snippet"]]',
+        '  n3[["table_columns"]]',
+        '  n4[("metadata_db (data/sample.db)")]',
+        '  n5[/"src/example.ts"/]',
+        '  n0 --> n2',
+        '  n0 --> n5',
+        '  n1 --> n3',
+        '  n3 --> n4',
+      ]);
+    });
   });
 });
 
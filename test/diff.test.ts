@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '../src/core/diff.js';
+
+describe('createUnifiedDiff', () => {
+  it('should return empty string for identical content', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('should create a hunk for a changed line', () => {
+    const diff = createUnifiedDiff('a\nb\nc\n', 'a\nB\nc\n', {
+      oldLabel: 'a/doc.md',
+      newLabel: 'b/doc.md',
+    });
+
+    expect(diff).toBe(
+      ['--- a/doc.md', '+++ b/doc.md', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n')
+    );
+  });
+
+  it('should limit context lines and split distant changes into hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), { context: 1 });
+
+    expect(diff.split('\n').filter((l) => l.startsWith('@@'))).toEqual([
+      '@@ -1,3 +1,3 @@',
+      '@@ -17,3 +17,3 @@',
+    ]);
+  });
+
+  it('should handle insertions and deletions', () => {
+    const diff = createUnifiedDiff('a\nb\n', 'a\nx\ny\n', { context: 0 });
+
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -2 +2,2 @@', '-b', '+x', '+y']);
+  });
+
+  it('should report empty ranges for pure insertions', () => {
+    const diff = createUnifiedDiff('', 'new\n');
+
+    expect(diff.split('\n').slice(2)).toEqual(['@@ -0,0 +1 @@', '+new']);
+  });
+
+  it('should mark a missing newline at end of file', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb').split('\n').slice(2)).toEqual([
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '+b',
+      '\\ No newline at end of file',
+    ]);
+    expect(createUnifiedDiff('a', 'b').split('\n').slice(2)).toEqual([
+      '@@ -1 +1 @@',
+      '-a',
+      '\\ No newline at end of file',
+      '+b',
+      '\\ No newline at end of file',
+    ]);
+  });
+
+  it('should note changes in line endings only', () => {
+    const diff = createUnifiedDiff('a\r\nb\r\n', 'a\nb\n', {
+      oldLabel: 'a/doc.md',
+      newLabel: 'b/doc.md',
+    });
+
+    expect(diff).toBe(
+      ['--- a/doc.md', '+++ b/doc.md', '\\ Line endings changed from CRLF to LF'].join('\n')
+    );
+  });
+
+  it('should offset line numbers with startLine', () => {
+    const diff = createUnifiedDiff('x\n', 'y\n', { startLine: 10 });
+
+    expect(diff.split('\n')[2]).toBe('@@ -10 +10 @@');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createEmbedFileAccess } from '../src/core/embed-files.js';
+import { writeFile, mkdir, rm, symlink } from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+
+describe('createEmbedFileAccess', () => {
+  let tempDir: string;
+  let documentPath: string;
+  let accessed: Set<string>;
+
+  beforeEach(async () => {
+    tempDir = path.join(os.tmpdir(), `embedoc-files-test-${Date.now()}`);
+    await mkdir(path.join(tempDir, 'docs', 'guide'), { recursive: true });
+    await mkdir(path.join(tempDir, 'src', 'node_modules', 'dep'), { recursive: true });
+    await writeFile(path.join(tempDir, 'src', 'a.ts'), 'export const a = 1;\n');
+    await writeFile(path.join(tempDir, 'src', 'b.ts'), 'export const b = 2;\n');
+    await writeFile(path.join(tempDir, 'src', 'node_modules', 'dep', 'index.ts'), '');
+    await writeFile(path.join(tempDir, 'docs', 'guide', 'snippet.txt'), 'snippet');
+    documentPath = path.join(tempDir, 'docs', 'guide', 'index.md');
+    accessed = new Set();
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should resolve paths against the document or the project root', () => {
+    const files = createEmbedFileAccess(documentPath, accessed, tempDir);
+
+    expect(files.resolvePath('snippet.txt')).toBe(path.join(tempDir, 'docs', 'guide', 'snippet.txt'));
+    expect(files.resolvePath('../../src/a.ts')).toBe(path.join(tempDir, 'src', 'a.ts'));
+    expect(files.resolvePath('/src/a.ts')).toBe(path.join(tempDir, 'src', 'a.ts'));
+    expect(files.resolvePath(path.join(tempDir, 'src', 'b.ts'))).toBe(path.join(tempDir, 'src', 'b.ts'));
+  });
+
+  it('should reject paths outside the project root', async () => {
+    const files = createEmbedFileAccess(documentPath, accessed, tempDir);
+
+    expect(() => files.resolvePath('../../../outside.txt')).toThrow(/outside the project root/);
+    await expect(files.readFile('/../outside.txt')).rejects.toThrow(/outside the project root/);
+    expect(accessed.size).toBe(0);
+  });
+
+  it('should reject symbolic links leading out of the project root', async () => {
+    const outside = path.join(os.tmpdir(), `embedoc-files-outside-${Date.now()}.txt`);
+    await writeFile(outside, 'secret');
+    await symlink(outside, path.join(tempDir, 'src', 'link.txt'));
+    try {
+      const files = createEmbedFileAccess(documentPath, accessed, tempDir);
+      await expect(files.readFile('/src/link.txt')).rejects.toThrow(/outside the project root/);
+    } finally {
+      await rm(outside, { force: true });
+    }
+  });
+
+  it('should record files read, including missing ones', async () => {
+    const files = createEmbedFileAccess(documentPath, accessed, tempDir);
+
+    expect(await files.readFile('snippet.txt')).toBe('snippet');
+    await expect(files.readFile('/src/missing.ts')).rejects.toThrow();
+
+    expect([...accessed]).toEqual([
+      path.join(tempDir, 'docs', 'guide', 'snippet.txt'),
+      path.join(tempDir, 'src', 'missing.ts'),
+    ]);
+  });
+
+  it('should glob files and record the matches', async () => {
+    const files = createEmbedFileAccess(documentPath, accessed, tempDir);
+
+    const fromRoot = await files.glob('/src/**/*.ts');
+    expect(fromRoot).toEqual([path.join(tempDir, 'src', 'a.ts'), path.join(tempDir, 'src', 'b.ts')]);
+
+    const fromDocument = await files.glob('*.txt');
+    expect(fromDocument).toEqual([path.join(tempDir, 'docs', 'guide', 'snippet.txt')]);
+
+    expect([...accessed].sort()).toEqual([...fromRoot, ...fromDocument].sort());
+  });
+
+  it('should not glob outside the project root', async () => {
+    const files = createEmbedFileAccess(documentPath, accessed, path.join(tempDir, 'docs'));
+
+    expect(await files.glob('../../src/*.ts')).toEqual([]);
+    expect(accessed.size).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import yaml from 'js-yaml';
+import { initProject } from '../src/core/init.js';
+import type { EmbedifyConfig } from '../src/types/index.js';
+
+describe('initProject', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-init-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true });
+  });
+
+  it('should write config, embed registry and sample embed', async () => {
+    const result = await initProject({ cwd: tempDir });
+
+    expect(result.files).toEqual([
+      { path: 'embedoc.config.yaml', skipped: false },
+      { path: 'embeds/index.ts', skipped: false },
+      { path: 'embeds/hello.ts', skipped: false },
+    ]);
+
+    const config = yaml.load(
+      await readFile(join(tempDir, 'embedoc.config.yaml'), 'utf-8')
+    ) as EmbedifyConfig;
+    expect(config.version).toBe('1.0');
+    expect(config.targets).toEqual([
+      { pattern: './docs/**/*.md', comment_style: 'html', exclude: ['**/node_modules/**'] },
+    ]);
+    expect(config.embeds_dir).toBe('./embeds');
+    expect(config.templates_dir).toBe('./templates');
+    expect(config.datasources).toBeUndefined();
+
+    const index = await readFile(join(tempDir, 'embeds/index.ts'), 'utf-8');
+    expect(index).toContain("import hello from './hello.ts'");
+    const sample = await readFile(join(tempDir, 'embeds/hello.ts'), 'utf-8');
+    expect(sample).toContain('defineEmbed');
+  });
+
+  it('should write JSON config for .json config paths', async () => {
+    await initProject({ cwd: tempDir, configPath: 'embedoc.config.json' });
+
+    const config = JSON.parse(
+      await readFile(join(tempDir, 'embedoc.config.json'), 'utf-8')
+    ) as EmbedifyConfig;
+    expect(config.version).toBe('1.0');
+    expect(config.targets).toEqual([
+      { pattern: './docs/**/*.md', comment_style: 'html', exclude: ['**/node_modules/**'] },
+    ]);
+    expect(config.comment_styles).toEqual({ html: { start: '<!--', end: '-->' } });
+    expect(config.embeds_dir).toBe('./embeds');
+    expect(config.datasources).toBeUndefined();
+  });
+
+  it('should detect docs folders and datasource files', async () => {
+    await mkdir(join(tempDir, 'docs'));
+    await mkdir(join(tempDir, 'data'));
+    await mkdir(join(tempDir, 'node_modules/pkg'), { recursive: true });
+    await writeFile(join(tempDir, 'README.md'), '# Readme');
+    await writeFile(join(tempDir, 'data/metadata.db'), '');
+    await writeFile(join(tempDir, 'data/api-endpoints.csv'), 'a,b');
+    await writeFile(join(tempDir, 'data/settings.yaml'), 'a: 1');
+    await writeFile(join(tempDir, 'node_modules/pkg/ignored.csv'), 'a,b');
+
+    const result = await initProject({ cwd: tempDir });
+
+    expect(result.targets.map((t) => t.pattern)).toEqual(['./docs/**/*.md', './README.md']);
+    expect(result.datasources).toEqual({
+      metadata: { type: 'sqlite', path: './data/metadata.db' },
+      api_endpoints: { type: 'csv', path: './data/api-endpoints.csv' },
+      settings: { type: 'yaml', path: './data/settings.yaml' },
+    });
+
+    const config = yaml.load(
+      await readFile(join(tempDir, 'embedoc.config.yaml'), 'utf-8')
+    ) as EmbedifyConfig;
+    expect(config.datasources).toEqual(result.datasources);
+  });
+
+  it('should skip detection when detect is false', async () => {
+    await writeFile(join(tempDir, 'README.md'), '# Readme');
+    await writeFile(join(tempDir, 'data.csv'), 'a,b');
+
+    const result = await initProject({ cwd: tempDir, detect: false });
+
+    expect(result.targets.map((t) => t.pattern)).toEqual(['./docs/**/*.md']);
+    expect(result.datasources).toEqual({});
+  });
+
+  it('should not overwrite existing files unless forced', async () => {
+    await writeFile(join(tempDir, 'embedoc.config.yaml'), 'custom: true\n');
+
+    const result = await initProject({ cwd: tempDir });
+    expect(result.files[0]).toEqual({ path: 'embedoc.config.yaml', skipped: true });
+    expect(await readFile(join(tempDir, 'embedoc.config.yaml'), 'utf-8')).toBe('custom: true\n');
+
+    const forced = await initProject({ cwd: tempDir, force: true });
+    expect(forced.files[0]).toEqual({ path: 'embedoc.config.yaml', skipped: false });
+    expect(await readFile(join(tempDir, 'embedoc.config.yaml'), 'utf-8')).toContain('version: "1.0"');
+  });
+});
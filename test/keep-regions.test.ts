@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findKeepRegions,
+  createKeepRegion,
+  mergeKeepRegions,
+  stripKeepRegions,
+} from '../src/core/keep-regions.js';
+import { DEFAULT_COMMENT_STYLES } from '../src/core/parser.js';
+
+const html = DEFAULT_COMMENT_STYLES.html;
+const hash = DEFAULT_COMMENT_STYLES.hash;
+
+describe('findKeepRegions', () => {
+  it('should find named regions with their content', () => {
+    const content = `a\n<!--@embedoc:keep name="notes"-->\nhand\n<!--@embedoc:keep-end-->\nb`;
+
+    const regions = findKeepRegions(content, html);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0]).toMatchObject({ name: 'notes', content: '\nhand\n' });
+    expect(content.slice(regions[0]!.startIndex, regions[0]!.endIndex)).toBe(
+      `<!--@embedoc:keep name="notes"-->\nhand\n<!--@embedoc:keep-end-->`
+    );
+  });
+
+  it('should support line comment styles', () => {
+    const content = `#@embedoc:keep name="extra"\nX = 1\n#@embedoc:keep-end\n`;
+
+    const regions = findKeepRegions(content, hash);
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0]).toMatchObject({ name: 'extra', content: '\nX = 1\n' });
+  });
+
+  it('should ignore a start marker without an end marker', () => {
+    expect(findKeepRegions(`<!--@embedoc:keep name="a"-->\ntext`, html)).toEqual([]);
+  });
+
+  it('should skip regions in code blocks when requested', () => {
+    const content = '```\n<!--@embedoc:keep name="a"-->\n<!--@embedoc:keep-end-->\n```';
+
+    expect(findKeepRegions(content, html)).toHaveLength(1);
+    expect(findKeepRegions(content, html, { skipCodeBlocks: true })).toHaveLength(0);
+  });
+});
+
+describe('createKeepRegion', () => {
+  it('should wrap default content in keep markers', () => {
+    expect(createKeepRegion(html, 'notes', 'TODO')).toBe(
+      `<!--@embedoc:keep name="notes"-->\nTODO\n<!--@embedoc:keep-end-->`
+    );
+    expect(createKeepRegion(hash, 'extra')).toBe(`#@embedoc:keep name="extra"\n#@embedoc:keep-end`);
+  });
+
+  it('should produce markers that findKeepRegions reads back', () => {
+    const [region] = findKeepRegions(createKeepRegion(html, 'say "hi"', 'x'), html);
+
+    expect(region?.name).toBe('say "hi"');
+    expect(region?.content).toBe('\nx\n');
+  });
+});
+
+describe('mergeKeepRegions', () => {
+  it('should carry existing region contents into new content', () => {
+    const existing = `old table\n${createKeepRegion(html, 'notes', 'my edited notes')}\n`;
+    const generated = `new table\n${createKeepRegion(html, 'notes', 'TODO')}\n`;
+
+    const result = mergeKeepRegions(generated, existing, html);
+
+    expect(result.content).toBe(`new table\n${createKeepRegion(html, 'notes', 'my edited notes')}\n`);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('should keep default content for new regions and report dropped ones', () => {
+    const existing = createKeepRegion(html, 'removed', 'lost text');
+    const generated = createKeepRegion(html, 'added', 'default');
+
+    const result = mergeKeepRegions(generated, existing, html);
+
+    expect(result.content).toBe(generated);
+    expect(result.dropped).toEqual(['removed']);
+  });
+});
+
+describe('stripKeepRegions', () => {
+  it('should remove region contents but keep the markers', () => {
+    const content = `a\n${createKeepRegion(html, 'notes', 'hand')}\nb`;
+
+    expect(stripKeepRegions(content, html)).toBe(
+      `a\n<!--@embedoc:keep name="notes"--><!--@embedoc:keep-end-->\nb`
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { addDefaultFrom, getNestedTables, InMemoryDatabase, LazyTables } from '../src/datasources/memory-db.js';
+
+describe('addDefaultFrom', () => {
+  it('should add FROM before the first clause', () => {
+    expect(addDefaultFrom('SELECT * WHERE a = ?', 'data')).toBe('SELECT * FROM "data" WHERE a = ?');
+    expect(addDefaultFrom('SELECT a, COUNT(*) GROUP BY a', 'data')).toBe(
+      'SELECT a, COUNT(*) FROM "data" GROUP BY a'
+    );
+    expect(addDefaultFrom('SELECT *;', 'data')).toBe('SELECT * FROM "data"');
+  });
+
+  it('should leave statements with FROM unchanged', () => {
+    expect(addDefaultFrom('SELECT * FROM users', 'data')).toBe('SELECT * FROM users');
+    expect(addDefaultFrom('PRAGMA table_info(data)', 'data')).toBe('PRAGMA table_info(data)');
+  });
+
+  it('should ignore keywords inside string literals', () => {
+    expect(addDefaultFrom("SELECT 'from here' AS x WHERE a = 'where'", 'data')).toBe(
+      `SELECT 'from here' AS x FROM "data" WHERE a = 'where'`
+    );
+  });
+});
+
+describe('getNestedTables', () => {
+  it('should return top-level arrays of objects', () => {
+    const tables = getNestedTables({ users: [{ id: 1 }], tags: ['a'], empty: [], name: 'x' });
+
+    expect(Object.keys(tables)).toEqual(['users']);
+  });
+
+  it('should return no tables for arrays', () => {
+    expect(getNestedTables([{ id: 1 }])).toEqual({});
+  });
+});
+
+describe('InMemoryDatabase', () => {
+  it('should store empty numeric CSV values as NULL', () => {
+    const db = new InMemoryDatabase('CSV', 'data');
+    db.addTable('data', [{ n: '1' }, { n: '' }, { n: '2.5' }], { numericStrings: true });
+
+    expect(db.query('SELECT n ORDER BY rowid')).toEqual([{ n: 1 }, { n: null }, { n: 2.5 }]);
+    expect(db.query('SELECT COUNT(n) AS count')).toEqual([{ count: 2 }]);
+
+    db.close();
+  });
+
+  it('should keep values with leading zeros as text', () => {
+    const db = new InMemoryDatabase('CSV', 'data');
+    db.addTable('data', [{ zip: '0123' }, { zip: '4567' }], { numericStrings: true });
+
+    expect(db.query('SELECT zip WHERE zip = ?', ['0123'])).toEqual([{ zip: '0123' }]);
+
+    db.close();
+  });
+
+  it('should keep numbers that do not convert back unchanged as text', () => {
+    const db = new InMemoryDatabase('CSV', 'data');
+    db.addTable('data', [{ price: '1.50', qty: '2' }, { price: '2.00', qty: '10' }], {
+      numericStrings: true,
+    });
+
+    expect(db.query('SELECT price, qty ORDER BY qty')).toEqual([
+      { price: '1.50', qty: 2 },
+      { price: '2.00', qty: 10 },
+    ]);
+
+    db.close();
+  });
+
+  it('should add aliases unless the name is taken', () => {
+    const db = new InMemoryDatabase('JSON', 'data');
+    db.addTable('data', [{ id: 1, active: true }]);
+    db.addTable('Users', [{ id: 2 }]);
+    db.addAlias('accounts', 'data');
+    db.addAlias('users', 'data');
+
+    expect(db.query('SELECT * FROM accounts')).toEqual([{ id: 1, active: true }]);
+    expect(db.query('SELECT * FROM users')).toEqual([{ id: 2 }]);
+
+    db.close();
+  });
+});
+
+describe('LazyTables', () => {
+  const TABLES = ['users', 'orders'] as const;
+
+  it('should read only requested tables, once', async () => {
+    const reads: string[][] = [];
+    const tables = new LazyTables('Test', TABLES, 'users', (names) => {
+      reads.push(names);
+      return Object.fromEntries(names.map((name) => [name, [{ name }]]));
+    });
+
+    const [first, second] = await Promise.all([tables.getAll(), tables.getAll()]);
+    expect(first).toEqual([{ name: 'users' }]);
+    expect(second).toBe(first);
+    expect(reads).toEqual([['users']]);
+
+    expect(await tables.query('SELECT name FROM orders')).toEqual([{ name: 'orders' }]);
+    expect(await tables.query('SELECT name')).toEqual([{ name: 'users' }]);
+    expect(reads).toEqual([['users'], ['orders']]);
+
+    await tables.close();
+  });
+
+  it('should keep tables returned in addition to the requested ones', async () => {
+    let reads = 0;
+    const tables = new LazyTables('Test', TABLES, 'users', () => {
+      reads++;
+      return { users: [{ id: 1 }], orders: [{ id: 2 }] };
+    });
+
+    await tables.getAll();
+    expect(await tables.getTable('orders')).toEqual([{ id: 2 }]);
+    expect(reads).toBe(1);
+
+    await tables.close();
+    await tables.getAll();
+    expect(reads).toBe(2);
+  });
+
+  it('should query additional tables and the alias of the default table', async () => {
+    const tables = new LazyTables(
+      'Test',
+      ['data'],
+      'data',
+      () => ({ data: [{ id: '1' }], extra: [{ id: '2' }] }),
+      { alias: 'users', tableOptions: { numericStrings: true } }
+    );
+
+    expect(await tables.query('SELECT id FROM users')).toEqual([{ id: 1 }]);
+    expect(await tables.query('SELECT id FROM extra')).toEqual([{ id: 2 }]);
+    expect(await tables.getAll()).toEqual([{ id: '1' }]);
+
+    await tables.close();
+  });
+
+  it('should retry after a failed read', async () => {
+    let attempt = 0;
+    const tables = new LazyTables('Test', TABLES, 'users', () => {
+      attempt++;
+      if (attempt === 1) {
+        throw new Error('not ready');
+      }
+      return { users: [{ id: 1 }], orders: [] };
+    });
+
+    await expect(tables.query('SELECT id')).rejects.toThrow('not ready');
+    expect(await tables.query('SELECT id')).toEqual([{ id: 1 }]);
+
+    await tables.close();
+  });
+});
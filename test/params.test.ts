@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { validateParams } from '../src/core/params.js';
+
+describe('validateParams', () => {
+  it('should coerce string values to declared types', () => {
+    const result = validateParams(
+      {
+        limit: { type: 'integer' },
+        ratio: { type: 'number' },
+        strict: { type: 'boolean' },
+        columns: { type: 'array' },
+        tags: { type: 'array' },
+        options: { type: 'object' },
+        name: {},
+      },
+      {
+        limit: '10',
+        ratio: 0.5,
+        strict: 'false',
+        columns: 'a, b',
+        tags: '["x","y"]',
+        options: '{"depth":2}',
+        name: 42,
+      }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.values).toEqual({
+      limit: 10,
+      ratio: 0.5,
+      strict: false,
+      columns: ['a', 'b'],
+      tags: ['x', 'y'],
+      options: { depth: 2 },
+      name: '42',
+    });
+  });
+
+  it('should apply defaults and pass through unknown parameters', () => {
+    const result = validateParams(
+      { start: { type: 'integer', default: 1 }, lang: {} },
+      { lang: '', inline: 'true' }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.values).toEqual({ start: 1, inline: 'true' });
+  });
+
+  it('should report missing, mistyped and disallowed values', () => {
+    const result = validateParams(
+      {
+        id: { required: true },
+        limit: { type: 'integer' },
+        format: { enum: ['table', 'list'] },
+      },
+      { id: '', limit: '1.5', format: 'grid' }
+    );
+
+    expect(result.errors).toEqual([
+      'Missing required parameter "id"',
+      'Parameter "limit" must be integer, got "1.5"',
+      'Parameter "format" must be one of "table", "list", got "grid"',
+    ]);
+  });
+});
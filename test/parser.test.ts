@@ -1,11 +1,16 @@
 import { describe, it, expect } from 'vitest';
 import {
   parseAttributes,
+  parseTypedAttributes,
   parseMarkers,
+  parseMarkersWithDiagnostics,
+  flattenMarkers,
   parseFrontmatter,
   resolveVariables,
   getCommentStyle,
   guessCommentStyle,
+  getMarkerScanOptions,
+  parseInlineDataMarkers,
   DEFAULT_COMMENT_STYLES,
 } from '../src/core/parser.js';
 
@@ -34,6 +39,42 @@ describe('parseAttributes', () => {
     const result = parseAttributes('   id="users"   schema="public"   ');
     expect(result).toEqual({ id: 'users', schema: 'public' });
   });
+
+  it('should allow the other quote character and escaped quotes in values', () => {
+    const result = parseAttributes(String.raw`title="It's \"quoted\"" alt='say "hi"' path="C:\dir"`);
+    expect(result).toEqual({ title: `It's "quoted"`, alt: 'say "hi"', path: 'C:\\dir' });
+  });
+
+  it('should parse hyphenated keys and bare flags', () => {
+    const result = parseAttributes('data-id="users" inline');
+    expect(result).toEqual({ 'data-id': 'users', inline: 'true' });
+  });
+
+  it('should convert JSON literal values to strings', () => {
+    const result = parseAttributes('columns=["a", "b"] limit=10 strict=false');
+    expect(result).toEqual({ columns: '["a","b"]', limit: '10', strict: 'false' });
+  });
+});
+
+describe('parseTypedAttributes', () => {
+  it('should parse JSON literals, flags and strings', () => {
+    const result = parseTypedAttributes(
+      'id="users" columns=["a","b c"] limit=10 ratio=0.5 opts={"depth": 2} empty=null inline'
+    );
+    expect(result).toEqual({
+      id: 'users',
+      columns: ['a', 'b c'],
+      limit: 10,
+      ratio: 0.5,
+      opts: { depth: 2 },
+      empty: null,
+      inline: true,
+    });
+  });
+
+  it('should keep quoted numbers as strings', () => {
+    expect(parseTypedAttributes('limit="10"')).toEqual({ limit: '10' });
+  });
 });
 
 describe('parseMarkers', () => {
@@ -157,6 +198,230 @@ Footer content
     expect(markers[0].templateName).toBe('table_index');
     expect(markers[0].params).toEqual({});
   });
+
+  it('should read the generated content hash from end markers', () => {
+    const html = `<!--@embedoc:a-->\nx\n<!-- @embedoc:end hash="0123456789ab" -->`;
+    const line = `# @embedoc:a\nx\n# @embedoc:end hash="0123456789ab"\nafter`;
+
+    const [htmlMarker] = parseMarkers(html, DEFAULT_COMMENT_STYLES.html);
+    const [lineMarker] = parseMarkers(line, DEFAULT_COMMENT_STYLES.hash);
+
+    expect(htmlMarker?.generatedHash).toBe('0123456789ab');
+    expect(htmlMarker?.existingContent).toBe('\nx\n');
+    expect(lineMarker?.generatedHash).toBe('0123456789ab');
+    expect(lineMarker?.endMarkerLine).toBe('# @embedoc:end hash="0123456789ab"');
+    expect(parseMarkers(`<!--@embedoc:a-->x<!--@embedoc:end-->`, DEFAULT_COMMENT_STYLES.html)[0]?.generatedHash).toBeUndefined();
+  });
+});
+
+describe('parseMarkersWithDiagnostics', () => {
+  it('should return no diagnostics for well-formed markers', () => {
+    const content = `<!--@embedoc:header id="main"-->\nHeader\n<!--@embedoc:end-->`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(markers).toHaveLength(1);
+    expect(markers[0].line).toBe(1);
+    expect(markers[0].column).toBe(1);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should report unterminated start markers', () => {
+    const content = `# Title\n\n  <!--@embedoc:header id="main"-->\nHeader\n`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(markers).toHaveLength(0);
+    expect(diagnostics).toEqual([
+      {
+        kind: 'unterminated_start',
+        message: 'Marker "header" has no matching @embedoc:end',
+        line: 3,
+        column: 3,
+      },
+    ]);
+  });
+
+  it('should report orphaned end markers', () => {
+    const content = `<!--@embedoc:header-->\nA\n<!--@embedoc:end-->\nB\n<!--@embedoc:end-->`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(markers).toHaveLength(1);
+    expect(diagnostics).toEqual([
+      {
+        kind: 'orphan_end',
+        message: '@embedoc:end has no matching start marker',
+        line: 5,
+        column: 1,
+      },
+    ]);
+  });
+
+  it('should report orphaned end markers for line comment style', () => {
+    const content = `x = 1\n#@embedoc:end\n`;
+    const { diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.hash);
+
+    expect(diagnostics.map((d) => [d.kind, d.line])).toEqual([['orphan_end', 2]]);
+  });
+
+  it('should report invalid JSON literals and unterminated quotes', () => {
+    const content = `<!--@embedoc:table columns=[1,2 id="a-->\n<!--@embedoc:end-->`;
+    const { diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(diagnostics.map((d) => [d.kind, d.message])).toEqual([
+      ['malformed_attribute', 'Malformed attribute "columns=[1,2" in marker "table"'],
+      ['malformed_attribute', 'Malformed attribute "id="a" in marker "table"'],
+    ]);
+  });
+
+  it('should report malformed attributes with their position', () => {
+    const content = `<!--@embedoc:table id="users" schema=public limit="10"-->\n<!--@embedoc:end-->`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(markers[0].params).toEqual({ id: 'users', limit: '10' });
+    expect(diagnostics).toEqual([
+      {
+        kind: 'malformed_attribute',
+        message: 'Malformed attribute "schema=public" in marker "table"',
+        line: 1,
+        column: 31,
+      },
+    ]);
+  });
+});
+
+describe('nested markers', () => {
+  it('should pair start and end markers by nesting', () => {
+    const content = `<!--@embedoc:outer-->\nA\n<!--@embedoc:inner id="1"-->\nB\n<!--@embedoc:end-->\nC\n<!--@embedoc:end-->\n<!--@embedoc:after-->\n<!--@embedoc:end-->`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(diagnostics).toEqual([]);
+    expect(markers.map((m) => m.templateName)).toEqual(['outer', 'after']);
+    expect(markers[0].existingContent).toBe(
+      `\nA\n<!--@embedoc:inner id="1"-->\nB\n<!--@embedoc:end-->\nC\n`
+    );
+    expect(markers[0].children).toMatchObject([
+      { templateName: 'inner', params: { id: '1' }, existingContent: '\nB\n', line: 3 },
+    ]);
+    expect(flattenMarkers(markers).map((m) => m.templateName)).toEqual([
+      'outer',
+      'inner',
+      'after',
+    ]);
+  });
+
+  it('should nest line comment style markers', () => {
+    const content = `// @embedoc:outer\n// @embedoc:inner\nx\n// @embedoc:end\n// @embedoc:end`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.line);
+
+    expect(diagnostics).toEqual([]);
+    expect(markers).toHaveLength(1);
+    expect(markers[0].children[0]?.templateName).toBe('inner');
+  });
+
+  it('should report mismatched nesting when an inner marker is not closed', () => {
+    const content = `<!--@embedoc:outer-->\n<!--@embedoc:inner-->\nB\n<!--@embedoc:end-->`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(markers.map((m) => m.templateName)).toEqual(['inner']);
+    expect(diagnostics).toEqual([
+      {
+        kind: 'mismatched_nesting',
+        message:
+          'Marker "outer" has no matching @embedoc:end (nested marker "inner" at line 2 may be missing its own @embedoc:end)',
+        line: 1,
+        column: 1,
+      },
+    ]);
+  });
+});
+
+describe('code block skipping', () => {
+  const html = DEFAULT_COMMENT_STYLES.html;
+  const skip = { skipCodeBlocks: true };
+
+  it('should ignore markers in fenced code blocks', () => {
+    const content = `<!--@embedoc:live-->\n<!--@embedoc:end-->\n\n\`\`\`markdown\n<!--@embedoc:example-->\n<!--@embedoc:end-->\n\`\`\`\n\n~~~\n<!--@embedoc:end-->\n~~~`;
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, html, skip);
+
+    expect(markers.map((m) => m.templateName)).toEqual(['live']);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should ignore markers in indented code blocks', () => {
+    const content = `Example:\n\n    <!--@embedoc:example-->\n    <!--@embedoc:end-->\n\n<!--@embedoc:live-->\n<!--@embedoc:end-->`;
+
+    expect(parseMarkers(content, html, skip).map((m) => m.templateName)).toEqual(['live']);
+  });
+
+  it('should not treat indented list item content as code', () => {
+    const content = `- item\n\n    <!--@embedoc:live-->\n    <!--@embedoc:end-->`;
+
+    expect(parseMarkers(content, html, skip).map((m) => m.templateName)).toEqual(['live']);
+  });
+
+  it('should ignore markers in inline code spans', () => {
+    const content = 'Use `<!--@embedoc:example-->` or ``<!--@embedoc:end-->``.\n<!--@embedoc:live-->\n<!--@embedoc:end-->';
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, html, skip);
+
+    expect(markers.map((m) => m.templateName)).toEqual(['live']);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should keep code inside marker blocks as existing content', () => {
+    const content = `<!--@embedoc:snippet-->\n\`\`\`ts\nconst a = 1;\n\`\`\`\n<!--@embedoc:end-->`;
+    const markers = parseMarkers(content, html, skip);
+
+    expect(markers).toHaveLength(1);
+    expect(markers[0].existingContent).toBe('\n```ts\nconst a = 1;\n```\n');
+  });
+
+  it('should ignore inline data markers in code blocks', () => {
+    const content = `\`\`\`\n<!--@embedoc-data:example-->\na: 1\n<!--@embedoc-data:end-->\n\`\`\`\n<!--@embedoc-data:live-->\nb: 2\n<!--@embedoc-data:end-->`;
+
+    expect(parseInlineDataMarkers(content, html, skip).map((m) => m.name)).toEqual(['live']);
+    expect(parseInlineDataMarkers(content, html).map((m) => m.name)).toEqual(['example', 'live']);
+  });
+
+  it('should scan code blocks when not skipping', () => {
+    const content = `\`\`\`\n<!--@embedoc:example-->\n<!--@embedoc:end-->\n\`\`\``;
+
+    expect(parseMarkers(content, html)).toHaveLength(1);
+  });
+
+  it('should skip code blocks by default for markdown files only', () => {
+    const target = { pattern: '*', comment_style: 'html' };
+
+    expect(getMarkerScanOptions(target, 'docs/a.md')).toEqual(skip);
+    expect(getMarkerScanOptions(target, 'docs/a.markdown')).toEqual(skip);
+    expect(getMarkerScanOptions(target, 'docs/a.html')).toEqual({ skipCodeBlocks: false });
+    expect(getMarkerScanOptions({ pattern: '*.ts', comment_style: 'block' }, 'a.ts')).toEqual({
+      skipCodeBlocks: false,
+    });
+    expect(getMarkerScanOptions({ ...target, skip_code_blocks: false }, 'a.md')).toEqual({
+      skipCodeBlocks: false,
+    });
+  });
+});
+
+describe('keep regions', () => {
+  it('should not parse markers inside keep regions', () => {
+    const content = `<!--@embedoc:outer-->\n<!--@embedoc:keep name="notes"-->\n<!--@embedoc:inner-->\n<!--@embedoc:end-->\n<!--@embedoc:keep-end-->\n<!--@embedoc:end-->`;
+
+    const { markers, diagnostics } = parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.html);
+
+    expect(diagnostics).toEqual([]);
+    expect(markers).toHaveLength(1);
+    expect(markers[0]?.templateName).toBe('outer');
+    expect(markers[0]?.children).toEqual([]);
+  });
+
+  it('should not treat keep markers as embed markers', () => {
+    const content = `#@embedoc:keep name="a"\nx\n#@embedoc:keep-end\n`;
+
+    expect(parseMarkersWithDiagnostics(content, DEFAULT_COMMENT_STYLES.hash)).toEqual({
+      markers: [],
+      diagnostics: [],
+    });
+  });
 });
 
 describe('parseFrontmatter', () => {
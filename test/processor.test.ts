@@ -1,9 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { processFile } from '../src/core/processor.js';
+import { processFile, build } from '../src/core/processor.js';
+import { DependencyStore, getDependencyFile } from '../src/core/dependency-store.js';
 import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
-import type { TargetConfig, EmbedifyConfig, EmbedDefinition } from '../src/types/index.js';
+import type {
+  TargetConfig,
+  EmbedifyConfig,
+  EmbedDefinition,
+  Datasource,
+} from '../src/types/index.js';
 
 describe('processFile', () => {
   let tempDir: string;
@@ -109,6 +115,478 @@ describe('processFile', () => {
     });
   });
 
+  describe('typed params', () => {
+    it('should pass typed values alongside string params', async () => {
+      const content = `---\nname: users\n---\n<!--@embedoc:test_embed id="\${name}" columns=["id","name"] limit=5 compact-->\n<!--@embedoc:end-->`;
+      let params: Record<string, string> | undefined;
+      let typedParams: Record<string, unknown> | undefined;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        test_embed: {
+          render: async (ctx) => {
+            params = ctx.params;
+            typedParams = ctx.typedParams;
+            return { content: 'ok' };
+          },
+        },
+      };
+
+      await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(params).toEqual({ id: 'users', columns: '["id","name"]', limit: '5', compact: 'true' });
+      expect(typedParams).toEqual({ id: 'users', columns: ['id', 'name'], limit: 5, compact: true });
+    });
+
+    it('should treat a bare inline flag as inline="true"', async () => {
+      const content = `<!--@embedoc:test_embed inline-->old<!--@embedoc:end-->`;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        test_embed: { render: async () => ({ content: 'new' }) },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(`<!--@embedoc:test_embed inline-->new<!--@embedoc:end-->`);
+    });
+  });
+
+  describe('param schemas', () => {
+    const embeds: Record<string, EmbedDefinition> = {
+      test_embed: {
+        params: {
+          id: { required: true },
+          limit: { type: 'integer', default: 10 },
+        },
+        render: async (ctx) => ({
+          content: `${ctx.params['id']}:${ctx.params['limit']}:${typeof ctx.typedParams['limit']}`,
+        }),
+      },
+    };
+
+    it('should pass coerced values and defaults to the embed', async () => {
+      const content = `<!--@embedoc:test_embed id="users"-->\n<!--@embedoc:end-->\n<!--@embedoc:test_embed id="posts" limit="5"-->\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(
+        `<!--@embedoc:test_embed id="users"-->\nusers:10:number\n<!--@embedoc:end-->\n<!--@embedoc:test_embed id="posts" limit="5"-->\nposts:5:number\n<!--@embedoc:end-->`
+      );
+    });
+
+    it('should report invalid params and skip rendering', async () => {
+      const content = `# Doc\n<!--@embedoc:test_embed limit="many"-->\nold\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.changed).toBe(false);
+      expect(result.diagnostics).toMatchObject([
+        {
+          kind: 'invalid_param',
+          message: 'Missing required parameter "id" in marker "test_embed"',
+          line: 2,
+          column: 1,
+          severity: 'warning',
+        },
+        {
+          kind: 'invalid_param',
+          message: 'Parameter "limit" must be integer, got "many" in marker "test_embed"',
+          line: 2,
+        },
+      ]);
+    });
+  });
+
+  describe('marker results', () => {
+    it('should report changed markers with line numbers in document order', async () => {
+      const content = `# Title\n\n<!--@embedoc:embed_a-->\nsame\n<!--@embedoc:end-->\n\n<!--@embedoc:embed_b-->\nold\n<!--@embedoc:end-->`;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        embed_a: {
+          render: async () => ({ content: 'same' }),
+        },
+        embed_b: {
+          render: async () => ({ content: 'new' }),
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.changed).toBe(true);
+      expect(result.markers).toMatchObject([
+        { templateName: 'embed_a', line: 3, changed: false },
+        { templateName: 'embed_b', line: 7, changed: true },
+      ]);
+    });
+
+    it('should keep original and new content of changed files and markers', async () => {
+      const content = `<!--@embedoc:embed_a-->\nsame\n<!--@embedoc:end-->\n<!--@embedoc:embed_b-->\nold\n<!--@embedoc:end-->`;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        embed_a: {
+          render: async () => ({ content: 'same' }),
+        },
+        embed_b: {
+          render: async () => ({ content: 'new' }),
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.originalContent).toBe(content);
+      expect(result.newContent).toBe(content.replace('old', 'new'));
+      expect(result.markers[0]?.originalContent).toBeUndefined();
+      expect(result.markers[1]?.originalContent).toBe(
+        `<!--@embedoc:embed_b-->\nold\n<!--@embedoc:end-->`
+      );
+      expect(result.markers[1]?.newContent).toBe(
+        `<!--@embedoc:embed_b-->\nnew\n<!--@embedoc:end-->`
+      );
+    });
+
+    it('should account for frontmatter when reporting line numbers', async () => {
+      const content = `---\ntitle: Test\n---\n<!--@embedoc:embed_a-->\nold\n<!--@embedoc:end-->`;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        embed_a: {
+          render: async () => ({ content: 'new' }),
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.markers).toMatchObject([{ templateName: 'embed_a', line: 4, changed: true }]);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should report unknown embeds as warnings by default', async () => {
+      const content = `<!--@embedoc:missing-->\nold\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, {}, {}, config, true);
+
+      expect(result.success).toBe(true);
+      expect(result.diagnostics).toEqual([
+        {
+          kind: 'unknown_embed',
+          message: 'Unknown embed "missing"',
+          line: 1,
+          column: 1,
+          file: testFile,
+          severity: 'warning',
+        },
+      ]);
+    });
+
+    it('should offset diagnostic lines by frontmatter', async () => {
+      const content = `---\ntitle: Test\n---\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, {}, {}, config, true);
+
+      expect(result.diagnostics).toMatchObject([{ kind: 'orphan_end', line: 4 }]);
+    });
+
+    it('should fail without writing when diagnostics level is error', async () => {
+      const content = `<!--@embedoc:test_embed-->\nold\n<!--@embedoc:end-->\n<!--@embedoc:missing-->\n<!--@embedoc:end-->`;
+      await writeFile(testFile, content);
+
+      const embeds: Record<string, EmbedDefinition> = {
+        test_embed: {
+          render: async () => ({ content: 'new' }),
+        },
+      };
+      const strictConfig: EmbedifyConfig = { ...config, diagnostics: { level: 'error' } };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, strictConfig, false);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain(`${testFile}:4:1 Unknown embed "missing"`);
+      expect(result.diagnostics[0]?.severity).toBe('error');
+      expect(await readFile(testFile, 'utf-8')).toBe(content);
+    });
+  });
+
+  describe('nested markers', () => {
+    const content = `<!--@embedoc:wrapper-->\nIntro\n<!--@embedoc:inner-->\nold\n<!--@embedoc:end-->\n<!--@embedoc:end-->`;
+
+    it('should render nested markers when the outer embed keeps existing content', async () => {
+      const embeds: Record<string, EmbedDefinition> = {
+        wrapper: { render: async () => ({ content: null }) },
+        inner: { render: async () => ({ content: 'new' }) },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(content.replace('old', 'new'));
+      expect(result.markers).toMatchObject([
+        { templateName: 'wrapper', line: 1, changed: true },
+        { templateName: 'inner', line: 3, changed: true },
+      ]);
+      expect(result.markersUpdated).toBe(1);
+    });
+
+    it('should render outer embed first and then markers in its output', async () => {
+      const order: string[] = [];
+      const embeds: Record<string, EmbedDefinition> = {
+        wrapper: {
+          render: async () => {
+            order.push('wrapper');
+            return { content: `Header\n<!--@embedoc:inner-->\n<!--@embedoc:end-->` };
+          },
+        },
+        inner: {
+          render: async () => {
+            order.push('inner');
+            return { content: 'body' };
+          },
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(order).toEqual(['wrapper', 'inner']);
+      expect(result.newContent).toBe(
+        `<!--@embedoc:wrapper-->\nHeader\n<!--@embedoc:inner-->\nbody\n<!--@embedoc:end-->\n<!--@embedoc:end-->`
+      );
+      expect(result.markers).toMatchObject([
+        { templateName: 'wrapper', line: 1 },
+        { templateName: 'inner', line: 3 },
+      ]);
+    });
+
+    it('should fail when embeds nest beyond the maximum depth', async () => {
+      const embeds: Record<string, EmbedDefinition> = {
+        wrapper: {
+          render: async () => ({ content: `<!--@embedoc:wrapper-->\n<!--@embedoc:end-->` }),
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('exceeds maximum nesting depth');
+    });
+
+    it('should fail without writing on mismatched nesting', async () => {
+      const broken = `<!--@embedoc:wrapper-->\n<!--@embedoc:inner-->\nold\n<!--@embedoc:end-->`;
+      await writeFile(testFile, broken);
+
+      const embeds: Record<string, EmbedDefinition> = {
+        wrapper: { render: async () => ({ content: null }) },
+        inner: { render: async () => ({ content: 'new' }) },
+      };
+
+      const result = await processFile(testFile, broken, targetConfig, embeds, {}, config, false);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain(`${testFile}:1:1 Marker "wrapper" has no matching`);
+      expect(await readFile(testFile, 'utf-8')).toBe(broken);
+    });
+  });
+
+  describe('code blocks', () => {
+    it('should leave example markers in code blocks untouched', async () => {
+      const content = `<!--@embedoc:test_embed-->\nold\n<!--@embedoc:end-->\n\n\`\`\`markdown\n<!--@embedoc:test_embed-->\nexample\n<!--@embedoc:end-->\n\`\`\``;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        test_embed: { render: async () => ({ content: 'new' }) },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(content.replace('old', 'new'));
+      expect(result.markersUpdated).toBe(1);
+    });
+
+    it('should update indented markers in html files', async () => {
+      const content = `<ul>\n\n    <!--@embedoc:test_embed-->\n    old\n    <!--@embedoc:end-->\n</ul>`;
+
+      const embeds: Record<string, EmbedDefinition> = {
+        test_embed: { render: async () => ({ content: 'new' }) },
+      };
+
+      const result = await processFile(
+        path.join(tempDir, 'test.html'),
+        content,
+        targetConfig,
+        embeds,
+        {},
+        config,
+        true
+      );
+
+      expect(result.markersUpdated).toBe(1);
+      expect(result.newContent).toContain('new');
+    });
+  });
+
+  describe('manual edits', () => {
+    const embeds: Record<string, EmbedDefinition> = {
+      test_embed: { render: async () => ({ content: 'generated' }) },
+    };
+    const withPolicy = (policy: EmbedifyConfig['manual_edits']): EmbedifyConfig => ({
+      ...config,
+      manual_edits: policy,
+    });
+
+    /** Build once with the policy, then edit the generated content */
+    const buildAndEdit = async (policy: EmbedifyConfig['manual_edits'], markerAttrs = '') => {
+      const content = `<!--@embedoc:test_embed${markerAttrs}-->\nold\n<!--@embedoc:end-->`;
+      const first = await processFile(testFile, content, targetConfig, embeds, {}, withPolicy(policy), true);
+      return first.newContent!.replace('generated', 'edited by hand');
+    };
+
+    it('should record a hash of the generated content in the end marker', async () => {
+      const content = `<!--@embedoc:test_embed-->\nold\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, withPolicy('warn'), true);
+
+      expect(result.newContent).toMatch(
+        /^<!--@embedoc:test_embed-->\ngenerated\n<!--@embedoc:end hash="[0-9a-f]{12}"-->$/
+      );
+
+      const second = await processFile(testFile, result.newContent!, targetConfig, embeds, {}, withPolicy('warn'), true);
+      expect(second.changed).toBe(false);
+      expect(second.diagnostics).toEqual([]);
+    });
+
+    it('should not record hashes with the default policy', async () => {
+      const content = `<!--@embedoc:test_embed-->\nold\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(`<!--@embedoc:test_embed-->\ngenerated\n<!--@embedoc:end-->`);
+    });
+
+    it('should warn and overwrite edited content with "warn"', async () => {
+      const edited = await buildAndEdit('warn');
+
+      const result = await processFile(testFile, edited, targetConfig, embeds, {}, withPolicy('warn'), true);
+
+      expect(result.success).toBe(true);
+      expect(result.newContent).toContain('\ngenerated\n');
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        kind: 'manual_edit',
+        severity: 'warning',
+        line: 1,
+      });
+      expect(result.diagnostics[0]?.message).toContain('overwriting it');
+    });
+
+    it('should keep edited content with "keep"', async () => {
+      const edited = await buildAndEdit('keep');
+
+      const result = await processFile(testFile, edited, targetConfig, embeds, {}, withPolicy('keep'), true);
+
+      expect(result.changed).toBe(false);
+      expect(result.markersUpdated).toBe(0);
+      expect(result.diagnostics[0]?.kind).toBe('manual_edit');
+      expect(result.diagnostics[0]?.message).toContain('keeping the edit');
+    });
+
+    it('should fail without writing with "refuse"', async () => {
+      const edited = await buildAndEdit('refuse');
+      await writeFile(testFile, edited);
+
+      const result = await processFile(testFile, edited, targetConfig, embeds, {}, withPolicy('refuse'), false);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('refusing to overwrite it');
+      expect(await readFile(testFile, 'utf-8')).toBe(edited);
+    });
+
+    it('should prefer the marker attribute over the target and global policy', async () => {
+      const edited = await buildAndEdit('refuse', ' manual_edits="keep"');
+
+      const result = await processFile(
+        testFile,
+        edited,
+        { ...targetConfig, manual_edits: 'warn' },
+        embeds,
+        {},
+        withPolicy('refuse'),
+        true
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.changed).toBe(false);
+      expect(result.diagnostics[0]?.message).toContain('manual_edits: keep');
+    });
+
+    it('should overwrite silently and update the hash with "overwrite"', async () => {
+      const edited = await buildAndEdit('warn');
+
+      const result = await processFile(testFile, edited, targetConfig, embeds, {}, config, true);
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.newContent).toContain('\ngenerated\n');
+      expect(result.newContent).toMatch(/<!--@embedoc:end hash="[0-9a-f]{12}"-->$/);
+    });
+
+    it('should report an unknown policy', async () => {
+      const content = `<!--@embedoc:test_embed manual_edits="ignore"-->\nold\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.changed).toBe(false);
+      expect(result.diagnostics[0]?.kind).toBe('invalid_param');
+    });
+  });
+
+  describe('keep regions', () => {
+    const embeds: Record<string, EmbedDefinition> = {
+      with_notes: {
+        render: async (ctx) => ({
+          content: `| generated |\n\n${ctx.keepRegion('notes', 'TODO')}`,
+        }),
+      },
+    };
+
+    it('should emit keep regions with default content', async () => {
+      const content = `<!--@embedoc:with_notes-->\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(
+        `<!--@embedoc:with_notes-->\n| generated |\n\n<!--@embedoc:keep name="notes"-->\nTODO\n<!--@embedoc:keep-end-->\n<!--@embedoc:end-->`
+      );
+    });
+
+    it('should carry hand-written region content over verbatim', async () => {
+      const content = `<!--@embedoc:with_notes-->\n| old |\n\n<!--@embedoc:keep name="notes"-->\nHand-written <!--@embedoc:unknown-->\n<!--@embedoc:keep-end-->\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).toBe(
+        content.replace('| old |', '| generated |')
+      );
+      // Markers inside keep regions are not processed
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report regions that are no longer emitted', async () => {
+      const content = `<!--@embedoc:with_notes-->\n<!--@embedoc:keep name="legacy"-->\nold notes\n<!--@embedoc:keep-end-->\n<!--@embedoc:end-->`;
+
+      const result = await processFile(testFile, content, targetConfig, embeds, {}, config, true);
+
+      expect(result.newContent).not.toContain('old notes');
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({ kind: 'dropped_keep_region', line: 1 });
+    });
+
+    it('should not treat edits inside keep regions as manual edits', async () => {
+      const policyConfig: EmbedifyConfig = { ...config, manual_edits: 'refuse' };
+      const content = `<!--@embedoc:with_notes-->\n<!--@embedoc:end-->`;
+
+      const first = await processFile(testFile, content, targetConfig, embeds, {}, policyConfig, true);
+      const edited = first.newContent!.replace('TODO', 'Reviewed by the team');
+      const second = await processFile(testFile, edited, targetConfig, embeds, {}, policyConfig, true);
+
+      expect(second.success).toBe(true);
+      expect(second.changed).toBe(false);
+    });
+  });
+
   describe('existing content preservation (null/undefined return)', () => {
     it('should keep existing content when embed returns null', async () => {
       const content = `<!--@embedoc:test_embed id="1"-->\nexisting content\n<!--@embedoc:end-->`;
@@ -226,4 +704,182 @@ describe('processFile', () => {
       );
     });
   });
+
+  describe('dependency tracking', () => {
+    const datasource = (rows: Record<string, unknown>[]): Datasource => ({
+      type: 'test',
+      query: async () => rows,
+      getAll: async () => rows,
+      close: async () => undefined,
+    });
+
+    it('should record datasources accessed by each marker', async () => {
+      const content = `<!--@embedoc:users-->\n<!--@embedoc:end-->\n<!--@embedoc:plain-->\n<!--@embedoc:end-->\n<!--@embedoc:both-->\n<!--@embedoc:end-->`;
+      const datasources = { users: datasource([{ name: 'a' }]), orders: datasource([]) };
+
+      const embeds: Record<string, EmbedDefinition> = {
+        users: {
+          render: async (ctx) => ({ content: String((await ctx.datasources['users']!.getAll()).length) }),
+        },
+        plain: {
+          render: async () => ({ content: 'x' }),
+        },
+        both: {
+          // Iterating datasources reads every value
+          render: async (ctx) => ({
+            content: Object.values(ctx.datasources).map((ds) => ds.type).join(','),
+          }),
+        },
+      };
+
+      const result = await processFile(testFile, content, targetConfig, embeds, datasources, config, true);
+
+      expect(result.markers.map((m) => m.dependencies)).toEqual([
+        { datasources: ['users'], files: [] },
+        { datasources: [], files: [] },
+        { datasources: ['orders', 'users'], files: [] },
+      ]);
+      expect(result.dependencies).toEqual({ datasources: ['orders', 'users'], files: [] });
+    });
+
+    it('should not record inline datasources', async () => {
+      const content = `<!--@embedoc-data:people format="yaml"-->\n- name: a\n<!--@embedoc-data:end-->\n<!--@embedoc:people-->\n<!--@embedoc:end-->`;
+      const embeds: Record<string, EmbedDefinition> = {
+        people: {
+          render: async (ctx) => ({ content: String((await ctx.datasources['people']!.getAll()).length) }),
+        },
+      };
+
+      const result = await processFile(
+        testFile,
+        content,
+        targetConfig,
+        embeds,
+        { users: datasource([]) },
+        config,
+        true
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.markers[0]?.newContent).toContain('\n1\n');
+      expect(result.dependencies).toEqual({ datasources: [], files: [] });
+    });
+
+    it('should persist accessed datasources per document in the build', async () => {
+      await writeFile(path.join(tempDir, 'a.md'), `<!--@embedoc:users-->\n<!--@embedoc:end-->`);
+      await writeFile(path.join(tempDir, 'b.md'), `<!--@embedoc:plain-->\n<!--@embedoc:end-->`);
+      const embeds: Record<string, EmbedDefinition> = {
+        users: {
+          render: async (ctx) => ({ content: String((await ctx.datasources['users']!.getAll()).length) }),
+        },
+        plain: {
+          render: async () => ({ content: 'x' }),
+        },
+      };
+      const buildConfig: EmbedifyConfig = {
+        version: '1.0',
+        targets: [{ pattern: `${tempDir}/*.md`, comment_style: 'html' }],
+        cache: { dir: path.join(tempDir, '.embedoc') },
+      };
+      const dependencies = await DependencyStore.load(buildConfig);
+
+      await build(buildConfig, embeds, { users: datasource([]) }, { dependencies });
+      await dependencies.save();
+
+      const saved = JSON.parse(await readFile(getDependencyFile(buildConfig), 'utf-8'));
+      expect(saved.documents).toEqual({
+        [path.relative(process.cwd(), path.join(tempDir, 'a.md')).split(path.sep).join('/')]: {
+          datasources: ['users'],
+          files: [],
+        },
+      });
+      expect((await DependencyStore.load(buildConfig)).get(path.join(tempDir, 'a.md'))).toEqual({
+        datasources: ['users'],
+        files: [],
+      });
+    });
+  });
+
+  describe('build concurrency', () => {
+    it('should process files in parallel up to the limit and keep result order', async () => {
+      const names = ['e.md', 'a.md', 'd.md', 'b.md', 'c.md'];
+      for (const name of names) {
+        await writeFile(path.join(tempDir, name), `<!--@embedoc:slow-->\n<!--@embedoc:end-->`);
+      }
+
+      let active = 0;
+      let maxActive = 0;
+      const embeds: Record<string, EmbedDefinition> = {
+        slow: {
+          render: async (ctx) => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise((r) => setTimeout(r, 10));
+            active--;
+            return { content: path.basename(ctx.filePath) };
+          },
+        },
+      };
+      const buildConfig: EmbedifyConfig = {
+        version: '1.0',
+        targets: [{ pattern: `${tempDir}/*.md`, comment_style: 'html' }],
+      };
+
+      const result = await build(buildConfig, embeds, {}, { dryRun: true, concurrency: 2 });
+
+      expect(maxActive).toBe(2);
+      expect(result.results.map((r) => path.basename(r.filePath))).toEqual([
+        'a.md',
+        'b.md',
+        'c.md',
+        'd.md',
+        'e.md',
+      ]);
+      expect(result.results.every((r) => r.newContent?.includes(path.basename(r.filePath)))).toBe(
+        true
+      );
+    });
+
+    it('should process files sequentially by default', async () => {
+      await writeFile(path.join(tempDir, 'a.md'), `<!--@embedoc:slow-->\n<!--@embedoc:end-->`);
+      await writeFile(path.join(tempDir, 'b.md'), `<!--@embedoc:slow-->\n<!--@embedoc:end-->`);
+
+      let active = 0;
+      let maxActive = 0;
+      const embeds: Record<string, EmbedDefinition> = {
+        slow: {
+          render: async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise((r) => setTimeout(r, 5));
+            active--;
+            return { content: 'x' };
+          },
+        },
+      };
+      const buildConfig: EmbedifyConfig = {
+        version: '1.0',
+        targets: [{ pattern: `${tempDir}/*.md`, comment_style: 'html' }],
+      };
+
+      await build(buildConfig, embeds, {}, { dryRun: true });
+
+      expect(maxActive).toBe(1);
+    });
+
+    it('should reject invalid concurrency from the config', async () => {
+      const buildConfig = {
+        version: '1.0',
+        targets: [{ pattern: `${tempDir}/*.md`, comment_style: 'html' }],
+        concurrency: 'abc',
+      } as unknown as EmbedifyConfig;
+
+      await expect(build(buildConfig, {}, {}, { dryRun: true })).rejects.toThrow(
+        'Invalid concurrency: "abc" (must be a positive integer)'
+      );
+      await expect(
+        build({ ...buildConfig, concurrency: 0 }, {}, {}, { dryRun: true })
+      ).rejects.toThrow('Invalid concurrency: 0');
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { applyTransforms, validateTransforms } from '../src/core/transforms.js';
+import { generateFromDatasource } from '../src/core/generator.js';
+import type { Datasource, EmbedifyConfig, QueryResult } from '../src/types/index.js';
+
+const endpoints: QueryResult = [
+  { path: '/users', method: 'GET', service: 'accounts', calls: '120', status: 'active' },
+  { path: '/orders', method: 'POST', service: 'billing', calls: '80', status: 'active' },
+  { path: '/legacy', method: 'GET', service: 'billing', calls: '9', status: 'deprecated' },
+  { path: '/invoices', method: 'GET', service: 'billing', calls: '', status: 'active' },
+];
+
+describe('applyTransforms', () => {
+  it('should filter by value and by operators', () => {
+    expect(applyTransforms(endpoints, [{ filter: { status: 'active', method: 'GET' } }]))
+      .toEqual([endpoints[0], endpoints[3]]);
+
+    // Numeric strings are compared as numbers; empty values never match comparisons
+    expect(applyTransforms(endpoints, [{ filter: { calls: { gte: 9, lt: 100 } } }]).map((r) => r['path']))
+      .toEqual(['/orders', '/legacy']);
+
+    expect(applyTransforms(endpoints, [
+      { filter: { service: { in: ['billing'] }, path: { matches: '^/(orders|invoices)$' } } },
+    ]).map((r) => r['path'])).toEqual(['/orders', '/invoices']);
+
+    expect(applyTransforms(endpoints, [{ filter: { calls: { exists: false } } }]))
+      .toEqual([endpoints[3]]);
+  });
+
+  it('should sort by several fields with missing values last', () => {
+    const sorted = applyTransforms(endpoints, [{ sort: ['service', '-calls'] }]);
+
+    expect(sorted.map((r) => r['path'])).toEqual(['/users', '/orders', '/legacy', '/invoices']);
+    expect(applyTransforms(endpoints, [{ sort: '-calls' }]).map((r) => r['calls']))
+      .toEqual(['120', '80', '9', '']);
+  });
+
+  it('should pick, rename and compute fields', () => {
+    const result = applyTransforms(endpoints.slice(0, 1), [
+      { computed: { id: '{method} {path}', slug: '{service}{path}' } },
+      { pick: ['id', 'slug', 'calls'] },
+      { rename: { calls: 'requests' } },
+    ]);
+
+    expect(result).toEqual([{ id: 'GET /users', slug: 'accounts/users', requests: '120' }]);
+  });
+
+  it('should group records and limit results', () => {
+    const result = applyTransforms(endpoints, [{ group_by: 'service' }, { limit: 1 }]);
+
+    expect(result).toEqual([{ service: 'accounts', count: 1, items: [endpoints[0]] }]);
+    expect(applyTransforms(endpoints, [{ group_by: 'service' }]).map((r) => r['count']))
+      .toEqual([1, 3]);
+  });
+
+  it('should not modify the input records', () => {
+    const input = [{ a: 2 }, { a: 1 }];
+
+    applyTransforms(input, [{ sort: 'a' }, { rename: { a: 'b' } }, { computed: { c: '{b}' } }]);
+
+    expect(input).toEqual([{ a: 2 }, { a: 1 }]);
+  });
+});
+
+describe('validateTransforms', () => {
+  it('should accept valid steps', () => {
+    expect(validateTransforms([
+      { filter: { status: 'active' } },
+      { sort: ['-calls'] },
+      { pick: ['path'] },
+      { rename: { path: 'endpoint' } },
+      { group_by: 'service' },
+      { limit: 5 },
+      { computed: { url: '/api{path}' } },
+    ])).toEqual([]);
+  });
+
+  it('should report invalid steps with their index', () => {
+    expect(validateTransforms({ sort: 'a' })).toEqual(['transforms must be a list of steps']);
+    expect(validateTransforms([{ sort: 'a', limit: 1 }, { where: {} }, { limit: -1 }])).toEqual([
+      'transforms[0]: each step must have exactly one of: filter, sort, pick, rename, group_by, limit, computed',
+      'transforms[1]: unknown step "where" (expected one of: filter, sort, pick, rename, group_by, limit, computed)',
+      'transforms[2]: limit must be a non-negative integer',
+    ]);
+    expect(validateTransforms([{ filter: { path: { matches: '(' } } }])).toEqual([
+      'transforms[0]: invalid regular expression for "path"',
+    ]);
+    expect(validateTransforms([{ filter: { service: { in: 'billing' }, status: { not_in: 1 } } }])).toEqual([
+      'transforms[0]: in for "service" must be a list of values',
+      'transforms[0]: not_in for "status" must be a list of values',
+    ]);
+  });
+});
+
+describe('generator transforms', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'embedoc-transforms-'));
+    await writeFile(join(tempDir, 'endpoint.hbs'), '{{path}}');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should generate files only for transformed records', async () => {
+    const datasource: Datasource = {
+      type: 'static',
+      query: async () => endpoints,
+      getAll: async () => endpoints,
+      close: async () => undefined,
+    };
+    const config: EmbedifyConfig = { version: '1.0', targets: [], templates_dir: tempDir };
+
+    const results = await generateFromDatasource(
+      'endpoints',
+      {
+        type: 'static',
+        generators: [
+          {
+            output_path: join(tempDir, 'out', '{name}.md'),
+            template: 'endpoint.hbs',
+            transforms: [
+              { filter: { status: 'active' } },
+              { computed: { name: '{service}-{method}' } },
+            ],
+          },
+        ],
+      },
+      datasource,
+      config,
+      { dryRun: true }
+    );
+
+    expect(results.map((r) => r.filePath)).toEqual([
+      join(tempDir, 'out', 'accounts-GET.md'),
+      join(tempDir, 'out', 'billing-POST.md'),
+      join(tempDir, 'out', 'billing-GET.md'),
+    ]);
+  });
+});